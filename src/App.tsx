@@ -5,6 +5,7 @@ import { Camera } from './input/Camera.js';
 import { InputHandler } from './input/InputHandler.js';
 import { getIsoBounds, isoToGrid } from './render/CoordinateUtils.js';
 import { useGameStore } from './store/gameStore.js';
+import { canUnitAttack } from './core/UnitActions.js';
 import { TopBar } from './ui/TopBar.js';
 import { UnitInfoPanel } from './ui/UnitInfoPanel.js';
 import { TechTreePanel } from './ui/TechTreePanel.js';
@@ -53,7 +54,7 @@ export function App() {
       rendererRef.current = renderer;
       renderer.render();
 
-      /** Refresh the unit and overlay rendering. */
+      /** Refresh changed tiles and borders and the connection, city, fog, unit and overlay rendering. */
       function refreshDisplay(): void {
         const store = useGameStore.getState();
         const selectedUnit = store.selectedUnitId !== null
@@ -63,8 +64,15 @@ export function App() {
           ? { x: selectedUnit.x, y: selectedUnit.y }
           : null;
 
-        renderer.renderCities(gs.getAllCities());
-        renderer.renderUnits(gs.getAllUnits(), store.selectedUnitId);
+        renderer.syncTiles();
+        renderer.renderBorders();
+
+        // Only show what the current player is allowed to see
+        const viewer = gs.getCurrentPlayer();
+        renderer.renderConnections(gs.getCityConnections(gs.getTribeForPlayer(viewer)));
+        renderer.renderCities(gs.getVisibleCities(viewer));
+        renderer.renderFog(gs.getVisibility(viewer));
+        renderer.renderUnits(gs.getVisibleUnits(viewer), store.selectedUnitId);
         renderer.renderOverlay(store.movementRange, selectedCoord);
       }
 
@@ -111,10 +119,10 @@ export function App() {
 
         // If a unit is selected and we click an enemy in range, show battle preview / attack
         if (store.selectedUnitId !== null) {
-          const enemyUnit = gs.getUnitAt(tileX, tileY);
+          const enemyUnit = gs.getVisibleUnitAt(tileX, tileY, gs.getCurrentPlayer());
           if (enemyUnit && enemyUnit.owner !== gs.getCurrentPlayer()) {
             const attacker = gs.getUnit(store.selectedUnitId);
-            if (attacker && !attacker.hasAttacked) {
+            if (attacker && canUnitAttack(attacker)) {
               const dist = Math.max(Math.abs(attacker.x - tileX), Math.abs(attacker.y - tileY));
               if (dist <= attacker.range) {
                 // Direct attack on tap (battle preview via long-press is future work)
@@ -126,7 +134,7 @@ export function App() {
         }
 
         // Check if there's a unit at the clicked tile
-        const unitAtTile = gs.getUnitAt(tileX, tileY);
+        const unitAtTile = gs.getVisibleUnitAt(tileX, tileY, gs.getCurrentPlayer());
 
         if (unitAtTile !== undefined && unitAtTile.owner === gs.getCurrentPlayer()) {
           selectUnit(unitAtTile.id);
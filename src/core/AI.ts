@@ -5,13 +5,17 @@
  * Executes a full turn for the current AI player:
  *   1. Research the cheapest affordable tech
  *   2. Train the strongest affordable unit at each city
- *   3. Move each unit toward the nearest enemy
- *   4. Attack any adjacent enemies
+ *   3. Capture any city a unit started the turn on
+ *   4. Move each unit toward the nearest visible enemy (or explore)
+ *   5. Attack any adjacent enemies
+ *
+ * The AI only acts on what its player can see (fog of war).
  */
 
 import { GameState } from './GameState.js';
-import { UnitType } from './types.js';
+import { Coord, UnitInstance, UnitType } from './types.js';
 import { getUnitBaseStats } from './UnitFactory.js';
+import { canUnitAttack, canUnitMove } from './UnitActions.js';
 
 /**
  * Unit training priority: strongest first.
@@ -28,7 +32,7 @@ const TRAIN_PRIORITY: readonly UnitType[] = [
 
 /**
  * Execute a complete AI turn for the current player.
- * Performs research, training, movement, and attacks in sequence.
+ * Performs research, training, captures, movement, and attacks in sequence.
  */
 export function executeAITurn(gameState: GameState): void {
   const player = gameState.getCurrentPlayer();
@@ -39,10 +43,13 @@ export function executeAITurn(gameState: GameState): void {
   // Phase 2: Train units at cities
   aiTrain(gameState, player);
 
-  // Phase 3: Move units toward enemies
+  // Phase 3: Capture cities
+  aiCapture(gameState, player);
+
+  // Phase 4: Move units toward enemies
   aiMove(gameState, player);
 
-  // Phase 4: Attack adjacent enemies
+  // Phase 5: Attack adjacent enemies
   aiAttack(gameState, player);
 }
 
@@ -81,7 +88,7 @@ function aiTrain(gameState: GameState, player: number): void {
     const { x, y } = city.position;
 
     // Skip if tile is occupied
-    if (gameState.getUnitAt(x, y) !== undefined) continue;
+    if (gameState.getVisibleUnitAt(x, y, player) !== undefined) continue;
 
     // Try each unit type in priority order
     for (const unitType of TRAIN_PRIORITY) {
@@ -103,40 +110,43 @@ function aiTrain(gameState: GameState, player: number): void {
 }
 
 /**
- * Phase 3: Move each AI unit toward the nearest enemy.
+ * Phase 3: Capture every enemy city or village an AI unit has held since
+ * the start of the turn.
+ */
+function aiCapture(gameState: GameState, player: number): void {
+  for (const unit of gameState.getUnitsForPlayer(player)) {
+    gameState.captureCity(unit.id);
+  }
+}
+
+/**
+ * Phase 4: Move each AI unit toward the nearest visible enemy.
+ * Units with no enemy in sight head for the nearest unexplored tile instead.
  */
 function aiMove(gameState: GameState, player: number): void {
   const aiUnits = gameState.getUnitsForPlayer(player);
-  const enemies = gameState.getAllUnits().filter(u => u.owner !== player);
-
-  if (enemies.length === 0) return;
+  const enemies = gameState.getVisibleUnits(player).filter(u => u.owner !== player);
 
   for (const unit of aiUnits) {
-    if (unit.hasMoved) continue;
+    if (!canUnitMove(unit)) continue;
 
-    // Find nearest enemy by Manhattan distance
-    let nearestEnemy = enemies[0];
-    let nearestDist = manhattan(unit.x, unit.y, enemies[0].x, enemies[0].y);
-
-    for (let i = 1; i < enemies.length; i++) {
-      const dist = manhattan(unit.x, unit.y, enemies[i].x, enemies[i].y);
-      if (dist < nearestDist) {
-        nearestDist = dist;
-        nearestEnemy = enemies[i];
-      }
-    }
+    // With no enemy in sight, explore the fog — but leave city garrisons home
+    const garrison = gameState.getCityAt(unit.x, unit.y)?.owner === gameState.getTribeForPlayer(player);
+    const target = findNearestEnemy(unit, enemies)
+      ?? (garrison ? null : findNearestUnexplored(gameState, player, unit));
+    if (target === null) continue;
 
     // Get reachable tiles
     const reachable = gameState.getMovementRange(unit.id);
     if (reachable.size === 0) continue;
 
-    // Pick the reachable tile closest to the target enemy
+    // Pick the reachable tile closest to the target
     let bestKey: string | null = null;
     let bestDist = Infinity;
 
     for (const key of reachable) {
       const coord = GameState.parseCoordKey(key);
-      const dist = manhattan(coord.x, coord.y, nearestEnemy.x, nearestEnemy.y);
+      const dist = manhattan(coord.x, coord.y, target.x, target.y);
       if (dist < bestDist) {
         bestDist = dist;
         bestKey = key;
@@ -152,21 +162,62 @@ function aiMove(gameState: GameState, player: number): void {
 }
 
 /**
- * Phase 4: For each AI unit, attack any enemy within range.
+ * Find the enemy nearest to a unit by Manhattan distance, or null if none.
+ */
+function findNearestEnemy(unit: UnitInstance, enemies: readonly UnitInstance[]): Coord | null {
+  let nearest: Coord | null = null;
+  let nearestDist = Infinity;
+
+  for (const enemy of enemies) {
+    const dist = manhattan(unit.x, unit.y, enemy.x, enemy.y);
+    if (dist < nearestDist) {
+      nearestDist = dist;
+      nearest = { x: enemy.x, y: enemy.y };
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Find the unexplored tile nearest to a unit by Manhattan distance, or null
+ * if the player has explored the whole map.
+ */
+function findNearestUnexplored(gameState: GameState, player: number, unit: UnitInstance): Coord | null {
+  const visibility = gameState.getVisibility(player);
+  let nearest: Coord | null = null;
+  let nearestDist = Infinity;
+
+  for (let y = 0; y < visibility.height; y++) {
+    for (let x = 0; x < visibility.width; x++) {
+      if (visibility.isExplored(x, y)) continue;
+      const dist = manhattan(unit.x, unit.y, x, y);
+      if (dist < nearestDist) {
+        nearestDist = dist;
+        nearest = { x, y };
+      }
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Phase 5: For each AI unit, attack any enemy within range.
  */
 function aiAttack(gameState: GameState, player: number): void {
   // Re-fetch units since positions may have changed after movement
   const aiUnits = gameState.getUnitsForPlayer(player);
 
   for (const unit of aiUnits) {
-    if (unit.hasAttacked) continue;
+    if (!canUnitAttack(unit)) continue;
 
     // Re-read the unit in case it was updated
     const current = gameState.getUnit(unit.id);
     if (!current) continue;
 
-    // Find enemies within attack range
-    const allEnemies = gameState.getAllUnits().filter(u => u.owner !== player);
+    // Find visible enemies within attack range
+    const allEnemies = gameState.getVisibleUnits(player).filter(u => u.owner !== player);
 
     for (const enemy of allEnemies) {
       const dist = Math.max(
@@ -0,0 +1,211 @@
+/**
+ * Building definitions and placement rules for PolyClone2.
+ * Pure TypeScript — no browser or rendering dependencies.
+ *
+ * Values match /src/assets/data/buildings.json and
+ * docs/design/game-mechanics.md §6.
+ */
+
+import {
+  BuildingDefinition,
+  BuildingType,
+  CityInstance,
+  PlacementRule,
+  ResourceType,
+  Tile,
+  TileType,
+  TribeId,
+} from './types.js';
+import { GameMap } from './GameMap.js';
+import { PlayerTechState } from './TechTree.js';
+
+/** Static building definitions — one per BuildingType. */
+const BUILDING_DEFINITIONS: readonly BuildingDefinition[] = [
+  // Resource & production
+  { type: BuildingType.Farm, name: 'Farm', cost: 5, population: 2, placement: { on: TileType.Field, requiresResource: ResourceType.Crop }, tech: 'farming' },
+  { type: BuildingType.Mine, name: 'Mine', cost: 5, population: 2, placement: { on: TileType.Mountain, requiresResource: ResourceType.Metal }, tech: 'mining' },
+  { type: BuildingType.LumberHut, name: 'Lumber Hut', cost: 3, population: 1, placement: { on: TileType.Forest }, tech: 'forestry' },
+  { type: BuildingType.Sawmill, name: 'Sawmill', cost: 5, population: '+1/adj lumberHut', placement: { on: TileType.Field }, tech: 'mathematics' },
+  { type: BuildingType.Windmill, name: 'Windmill', cost: 5, population: '+1/adj farm', placement: { on: TileType.Field }, tech: 'construction' },
+  { type: BuildingType.Forge, name: 'Forge', cost: 5, population: '+2/adj mine', placement: { on: TileType.Field }, tech: 'smithery' },
+  { type: BuildingType.Market, name: 'Market', cost: 5, population: '+1 SPT/adj production building', placement: { on: TileType.Field }, tech: 'trade' },
+  { type: BuildingType.Port, name: 'Port', cost: 7, population: 1, placement: { on: 'coastal' }, tech: 'fishing' },
+  // Infrastructure
+  { type: BuildingType.Road, name: 'Road', cost: 3, population: 0, placement: { on: 'any' }, tech: 'roads' },
+  { type: BuildingType.Bridge, name: 'Bridge', cost: 5, population: 0, placement: { on: TileType.ShallowWater }, tech: 'roads' },
+  // Temples
+  { type: BuildingType.Temple, name: 'Temple', cost: 20, population: 1, placement: { on: TileType.Field }, tech: 'freeSpirit' },
+  { type: BuildingType.ForestTemple, name: 'Forest Temple', cost: 15, population: 1, placement: { on: TileType.Forest }, tech: 'spiritualism' },
+  { type: BuildingType.MountainTemple, name: 'Mountain Temple', cost: 20, population: 1, placement: { on: TileType.Mountain }, tech: 'meditation' },
+  { type: BuildingType.WaterTemple, name: 'Water Temple', cost: 20, population: 1, placement: { on: TileType.ShallowWater }, tech: 'aquatism' },
+  // Monuments
+  { type: BuildingType.Monument, name: 'Monument', cost: 0, population: 3, placement: { on: 'any' }, tech: 'freeSpirit' },
+];
+
+/** Lookup map from BuildingType to BuildingDefinition. */
+const BUILDING_MAP: ReadonlyMap<BuildingType, BuildingDefinition> = new Map(
+  BUILDING_DEFINITIONS.map(b => [b.type, b]),
+);
+
+/** Infrastructure may be built outside city borders, on unclaimed land. */
+const INFRASTRUCTURE: ReadonlySet<BuildingType> = new Set([BuildingType.Road, BuildingType.Bridge]);
+
+/**
+ * Get the static definition for a building.
+ */
+export function getBuildingDefinition(type: BuildingType): BuildingDefinition {
+  const def = BUILDING_MAP.get(type);
+  if (!def) throw new Error(`Unknown building: ${type}`);
+  return def;
+}
+
+/**
+ * Get all building definitions.
+ */
+export function getAllBuildings(): readonly BuildingDefinition[] {
+  return BUILDING_DEFINITIONS;
+}
+
+/** Buildings whose neighbours earn Market income. */
+const PRODUCTION_BUILDINGS: readonly BuildingType[] = [BuildingType.Sawmill, BuildingType.Windmill, BuildingType.Forge];
+
+/** A parsed adjacency formula such as "+2/adj mine" or "+1 SPT/adj production building". */
+export interface AdjacencyBonus {
+  readonly amount: number;
+  readonly yields: 'population' | 'stars';
+  readonly adjacent: readonly BuildingType[];
+}
+
+/**
+ * Parse a building population formula.
+ * Returns undefined if the formula is not in the "+N[ SPT]/adj <building>" form.
+ */
+export function parseAdjacencyFormula(formula: string): AdjacencyBonus | undefined {
+  const match = /^\+(\d+)( SPT)?\/adj (.+)$/.exec(formula);
+  if (!match) return undefined;
+
+  const target = match[3];
+  const adjacent = target === 'production building'
+    ? PRODUCTION_BUILDINGS
+    : Object.values(BuildingType).filter(t => t === target);
+  if (adjacent.length === 0) return undefined;
+
+  return {
+    amount: Number(match[1]),
+    yields: match[2] ? 'stars' : 'population',
+    adjacent,
+  };
+}
+
+/** Get the adjacency bonus for a building type, or undefined if its yield is fixed. */
+export function getAdjacencyBonus(type: BuildingType): AdjacencyBonus | undefined {
+  const { population } = getBuildingDefinition(type);
+  return typeof population === 'string' ? parseAdjacencyFormula(population) : undefined;
+}
+
+/**
+ * Population currently yielded by the building on (x, y).
+ * Fixed values are returned as-is; adjacency formulas count matching
+ * buildings on the 8 neighbouring tiles. 0 if there is no building.
+ */
+export function getBuildingPopulation(map: GameMap, x: number, y: number): number {
+  const building = map.getTile(x, y)?.building;
+  if (building === undefined) return 0;
+
+  const { population } = getBuildingDefinition(building);
+  if (typeof population === 'number') return population;
+  return evaluateAdjacency(map, x, y, building, 'population');
+}
+
+/** Star income (SPT) currently yielded by the building on (x, y), e.g. a Market. */
+export function getBuildingIncome(map: GameMap, x: number, y: number): number {
+  const building = map.getTile(x, y)?.building;
+  if (building === undefined) return 0;
+  return evaluateAdjacency(map, x, y, building, 'stars');
+}
+
+function evaluateAdjacency(
+  map: GameMap,
+  x: number,
+  y: number,
+  type: BuildingType,
+  yields: AdjacencyBonus['yields'],
+): number {
+  const bonus = getAdjacencyBonus(type);
+  if (bonus === undefined || bonus.yields !== yields) return 0;
+
+  const count = map.getNeighbors(x, y)
+    .filter(n => n.building !== undefined && bonus.adjacent.includes(n.building))
+    .length;
+  return count * bonus.amount;
+}
+
+/** The player attempting to build, and where. */
+export interface BuildContext {
+  readonly map: GameMap;
+  readonly tribe: TribeId;
+  readonly techs: PlayerTechState;
+  /** The city whose territory covers the tile, if any. */
+  readonly city: CityInstance | undefined;
+}
+
+/**
+ * Check if a tile satisfies a placement rule.
+ *   { on: TileType }  : matching terrain, plus the resource if one is required
+ *   { on: 'coastal' } : shallow water next to land
+ *   { on: 'any' }     : any land tile
+ */
+export function isPlacementValid(tile: Tile, placement: PlacementRule, map: GameMap): boolean {
+  switch (placement.on) {
+    case 'any':
+      return !isWater(tile.type);
+    case 'coastal':
+      return tile.type === TileType.ShallowWater
+        && map.getNeighbors(tile.x, tile.y).some(n => !isWater(n.type));
+    default:
+      if (tile.type !== placement.on) return false;
+      return placement.requiresResource === undefined || tile.resource === placement.requiresResource;
+  }
+}
+
+/**
+ * Check if the player in `ctx` can build `type` on `tile`, ignoring cost.
+ *
+ * Requires the unlocking tech, a free non-city tile that fits the placement
+ * rule, and the player's own city territory. Roads and bridges may also go
+ * on unclaimed land; a bridge must span a single water tile between land.
+ * Monuments are earned through tasks and cannot be built directly.
+ */
+export function canBuild(tile: Tile, type: BuildingType, ctx: BuildContext): boolean {
+  if (type === BuildingType.Monument) return false;
+  if (tile.building !== undefined) return false;
+  if (ctx.city && ctx.city.position.x === tile.x && ctx.city.position.y === tile.y) return false;
+  if (!ctx.techs.isBuildingUnlocked(type)) return false;
+
+  const def = getBuildingDefinition(type);
+  if (!isPlacementValid(tile, def.placement, ctx.map)) return false;
+
+  if (ctx.city !== undefined) {
+    if (ctx.city.owner !== ctx.tribe) return false;
+  } else {
+    if (!INFRASTRUCTURE.has(type)) return false;
+    if (tile.owner !== undefined && tile.owner !== 'neutral' && tile.owner !== ctx.tribe) return false;
+  }
+
+  if (type === BuildingType.Bridge) return spansWater(tile, ctx.map);
+  return true;
+}
+
+/** A bridge needs land on two opposite sides. */
+function spansWater(tile: Tile, map: GameMap): boolean {
+  const isLand = (x: number, y: number): boolean => {
+    const t = map.getTile(x, y);
+    return t !== null && !isWater(t.type);
+  };
+  return (isLand(tile.x - 1, tile.y) && isLand(tile.x + 1, tile.y))
+    || (isLand(tile.x, tile.y - 1) && isLand(tile.x, tile.y + 1));
+}
+
+function isWater(type: TileType): boolean {
+  return type === TileType.ShallowWater || type === TileType.Ocean;
+}
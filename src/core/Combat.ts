@@ -5,7 +5,8 @@
  * Implements the Polytopia combat formula from docs/design/game-mechanics.md.
  */
 
-import { UnitInstance, UnitSkill, TileType } from './types.js';
+import { CityInstance, UnitInstance, UnitSkill, TileType } from './types.js';
+import { getStateAfterAttack } from './UnitActions.js';
 
 /** Result of resolving a single attack action. */
 export interface CombatResult {
@@ -23,6 +24,41 @@ export interface CombatResult {
   readonly defender: UnitInstance;
 }
 
+/** A unit caught in a Splash attack next to the target. */
+export interface SplashHit {
+  /** The victim after damage (HP may be 0 if killed). */
+  readonly unit: UnitInstance;
+  readonly damage: number;
+  readonly killed: boolean;
+}
+
+/** Everything an attack did, as applied by GameState.attackUnit. */
+export interface AttackResult {
+  readonly damageToDefender: number;
+  readonly damageToAttacker: number;
+  readonly defenderKilled: boolean;
+  readonly attackerKilled: boolean;
+  /** Splash damage dealt to units next to the target. */
+  readonly splash: readonly SplashHit[];
+  /** Every unit that took damage, in its post-attack state (including dead ones). */
+  readonly affected: readonly UnitInstance[];
+  /** IDs of all units removed from the board, the attacker included. */
+  readonly removed: readonly string[];
+  /** Units killed by the attacker: the target and any splash victims. */
+  readonly killed: readonly UnitInstance[];
+}
+
+/** Where a defender's bonus came from. */
+export type DefenseBonusSource = 'none' | 'terrain' | 'city' | 'cityWall';
+
+/** The defense bonus applied to a defender, and why. */
+export interface DefenseBonus {
+  readonly multiplier: number;
+  readonly source: DefenseBonusSource;
+  /** Short human-readable explanation, e.g. "Fortified behind city walls". */
+  readonly reason: string;
+}
+
 /**
  * Get the defense bonus multiplier for a given terrain type.
  * Attacking from defensive terrain grants NO bonus — only defenders benefit.
@@ -46,6 +82,37 @@ export function getCityDefenseBonus(hasWall: boolean): number {
   return hasWall ? 4.0 : 1.5;
 }
 
+/**
+ * Work out which defense bonus a defender receives.
+ *
+ * Only units with Fortify receive the city bonus (walls give more); any
+ * other unit standing in a city falls back to the terrain bonus.
+ *
+ * @param defender - The defending unit
+ * @param terrain - The terrain of the defender's tile
+ * @param friendlyCity - The defender's own city on that tile, if any
+ */
+export function getDefenseBonus(
+  defender: UnitInstance,
+  terrain: TileType,
+  friendlyCity: CityInstance | undefined,
+): DefenseBonus {
+  const canFortify = defender.skills.includes(UnitSkill.Fortify);
+
+  if (friendlyCity && canFortify) {
+    return friendlyCity.hasWall
+      ? { multiplier: getCityDefenseBonus(true), source: 'cityWall', reason: 'Fortified behind city walls' }
+      : { multiplier: getCityDefenseBonus(false), source: 'city', reason: 'Fortified in city' };
+  }
+
+  const multiplier = getDefenseBonusForTerrain(terrain);
+  const cityNote = friendlyCity ? ' (cannot fortify in city)' : '';
+  if (multiplier > 1) {
+    return { multiplier, source: 'terrain', reason: `Defensive terrain${cityNote}` };
+  }
+  return { multiplier, source: 'none', reason: `No defense bonus${cityNote}` };
+}
+
 /**
  * Resolves combat between an attacker and defender.
  *
@@ -109,7 +176,7 @@ export function resolveCombat(
     ...attacker,
     currentHp: Math.max(0, attackerNewHp),
     kills: newKills,
-    hasAttacked: true,
+    actionState: getStateAfterAttack(attacker, defenderKilled),
   };
 
   const updatedDefender: UnitInstance = {
@@ -127,6 +194,30 @@ export function resolveCombat(
   };
 }
 
+/**
+ * Resolve the Splash damage an attacker deals to a unit next to its target:
+ * half the damage a direct attack would do, with no retaliation.
+ */
+export function resolveSplash(
+  attacker: UnitInstance,
+  victim: UnitInstance,
+  defenseBonus: number,
+): SplashHit {
+  const attackForce = attacker.atk * (attacker.currentHp / attacker.maxHp);
+  const defenseForce = victim.def * (victim.currentHp / victim.maxHp) * defenseBonus;
+  const totalDamage = attackForce + defenseForce;
+
+  const fullDamage = totalDamage === 0 ? 0 : Math.round((attackForce / totalDamage) * attacker.atk * 4.5);
+  const damage = Math.floor(fullDamage / 2);
+  const newHp = victim.currentHp - damage;
+
+  return {
+    unit: { ...victim, currentHp: Math.max(0, newHp) },
+    damage,
+    killed: newHp <= 0,
+  };
+}
+
 /**
  * Check if a unit is eligible for veteran promotion.
  * Requires 3+ kills and the unit must not have the Static skill.
@@ -156,19 +247,20 @@ export function promoteToVeteran(unit: UnitInstance): UnitInstance {
 
 /**
  * Calculate expected damage without applying it. Useful for battle preview.
+ * The applied defense bonus is passed through so the UI can explain it.
  */
 export function previewCombat(
   attacker: UnitInstance,
   defender: UnitInstance,
-  defenseBonus: number,
+  defenseBonus: DefenseBonus,
   attackerDistance: number,
-): { damageToDefender: number; damageToAttacker: number } {
+): { damageToDefender: number; damageToAttacker: number; defenseBonus: DefenseBonus } {
   const attackForce = attacker.atk * (attacker.currentHp / attacker.maxHp);
-  const defenseForce = defender.def * (defender.currentHp / defender.maxHp) * defenseBonus;
+  const defenseForce = defender.def * (defender.currentHp / defender.maxHp) * defenseBonus.multiplier;
   const totalDamage = attackForce + defenseForce;
 
   if (totalDamage === 0) {
-    return { damageToDefender: 0, damageToAttacker: 0 };
+    return { damageToDefender: 0, damageToAttacker: 0, defenseBonus };
   }
 
   const attackResult = Math.round((attackForce / totalDamage) * attacker.atk * 4.5);
@@ -184,5 +276,5 @@ export function previewCombat(
     damageToAttacker = defenseResult;
   }
 
-  return { damageToDefender: attackResult, damageToAttacker };
+  return { damageToDefender: attackResult, damageToAttacker, defenseBonus };
 }
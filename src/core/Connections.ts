@@ -0,0 +1,107 @@
+/**
+ * City connections for PolyClone2.
+ * Pure TypeScript — no browser or rendering dependencies.
+ *
+ * A city is connected when an unbroken route links it to its tribe's
+ * capital (docs/design/game-mechanics.md §5, City Connections):
+ *   - over roads and bridges, passing through the tribe's own cities
+ *   - across water between the tribe's ports
+ * Roads in another tribe's territory and enemy cities break the chain.
+ */
+
+import { BuildingType, CityInstance, Coord, Tile, TileType, TribeId } from './types.js';
+import { GameMap } from './GameMap.js';
+
+/** A route from a tribe's capital to one of its connected cities. */
+export interface CityConnection {
+  readonly tribe: TribeId;
+  readonly capital: Coord;
+  readonly city: Coord;
+  /** Tiles from the capital to the city, both included. */
+  readonly route: readonly Coord[];
+}
+
+/** How a tile takes part in the connection network. */
+type NodeKind = 'land' | 'port' | 'water';
+
+/**
+ * Find every city of `tribe` connected to its capital, with the shortest
+ * route to each. Returns an empty list if the tribe has no capital.
+ */
+export function findCityConnections(
+  map: GameMap,
+  cities: readonly CityInstance[],
+  tribe: TribeId,
+): CityConnection[] {
+  const capital = cities.find(c => c.owner === tribe && c.isCapital);
+  if (capital === undefined) return [];
+  const origin = map.getTile(capital.position.x, capital.position.y);
+  if (origin === null) return [];
+
+  const ownCities = new Map(
+    cities.filter(c => c.owner === tribe).map(c => [c.position.y * map.width + c.position.x, c]),
+  );
+  const enemyCities = new Set(
+    cities.filter(c => c.owner !== tribe).map(c => c.position.y * map.width + c.position.x),
+  );
+  const nodeKind = (tile: Tile): NodeKind | undefined => {
+    const idx = tile.y * map.width + tile.x;
+    if (ownCities.has(idx)) return 'land';
+    if (enemyCities.has(idx)) return undefined;
+    if (tile.building === BuildingType.Port) return tile.owner === tribe ? 'port' : undefined;
+    if (tile.building === BuildingType.Road || tile.building === BuildingType.Bridge) {
+      const usable = tile.owner === undefined || tile.owner === 'neutral' || tile.owner === tribe;
+      return usable ? 'land' : undefined;
+    }
+    if (tile.building === undefined && isWater(tile.type)) return 'water';
+    return undefined;
+  };
+
+  // Breadth-first search from the capital, remembering how each tile was reached
+  const start = capital.position.y * map.width + capital.position.x;
+  const previous = new Map<number, number>([[start, -1]]);
+  const queue: Tile[] = [origin];
+  const connections: CityConnection[] = [];
+
+  for (let head = 0; head < queue.length; head++) {
+    const tile = queue[head];
+    const idx = tile.y * map.width + tile.x;
+    const kind = nodeKind(tile);
+    if (kind === undefined) continue;
+
+    const city = ownCities.get(idx);
+    if (city !== undefined && idx !== start) {
+      connections.push({ tribe, capital: capital.position, city: city.position, route: buildRoute(map, previous, idx) });
+    }
+
+    for (const next of map.getNeighbors(tile.x, tile.y)) {
+      const nextIdx = next.y * map.width + next.x;
+      if (previous.has(nextIdx)) continue;
+
+      const nextKind = nodeKind(next);
+      if (nextKind === undefined || !canLink(kind, nextKind)) continue;
+      previous.set(nextIdx, idx);
+      queue.push(next);
+    }
+  }
+
+  return connections;
+}
+
+/** Land links to land and ports, water to water and ports; ports join the two. */
+function canLink(from: NodeKind, to: NodeKind): boolean {
+  if (from === 'port' || to === 'port') return true;
+  return from === to;
+}
+
+function buildRoute(map: GameMap, previous: ReadonlyMap<number, number>, end: number): Coord[] {
+  const route: Coord[] = [];
+  for (let idx: number | undefined = end; idx !== undefined && idx >= 0; idx = previous.get(idx)) {
+    route.push({ x: idx % map.width, y: Math.floor(idx / map.width) });
+  }
+  return route.reverse();
+}
+
+function isWater(type: TileType): boolean {
+  return type === TileType.ShallowWater || type === TileType.Ocean;
+}
@@ -7,7 +7,8 @@
  *   docs/design/game-mechanics.md  (movement §10, combat §1)
  */
 
-import { Coord, Tile, TileType } from './types.js';
+import { BuildingType, Coord, ResourceType, Tile, TileType, TribeId, UnitInstance, UnitSkill } from './types.js';
+import { PlayerTechState } from './TechTree.js';
 
 /**
  * Movement cost returned when a tile is impassable or "uses all remaining
@@ -17,6 +18,16 @@ import { Coord, Tile, TileType } from './types.js';
  */
 const IMPASSABLE_COST = 99;
 
+/** Movement cost for a step between two usable road (or bridge) tiles. */
+const ROAD_COST = 0.5;
+
+/** The unit being moved, with its owner's tribe and researched techs. */
+export interface MovementContext {
+  readonly unit: UnitInstance;
+  readonly tribe: TribeId;
+  readonly techs: PlayerTechState;
+}
+
 export class GameMap {
   readonly width: number;
   readonly height: number;
@@ -77,6 +88,24 @@ export class GameMap {
     this.tiles[y][x] = { ...this.tiles[y][x], type };
   }
 
+  /** Place (or remove, with undefined) the resource on tile (x, y). No-op if out of bounds. */
+  setResource(x: number, y: number, resource: ResourceType | undefined): void {
+    if (!this.isInBounds(x, y)) return;
+    this.tiles[y][x] = { ...this.tiles[y][x], resource };
+  }
+
+  /** Place (or remove, with undefined) the building on tile (x, y). No-op if out of bounds. */
+  setBuilding(x: number, y: number, building: BuildingType | undefined): void {
+    if (!this.isInBounds(x, y)) return;
+    this.tiles[y][x] = { ...this.tiles[y][x], building };
+  }
+
+  /** Set (or clear, with undefined) the tribe owning tile (x, y). No-op if out of bounds. */
+  setOwner(x: number, y: number, owner: TribeId | undefined): void {
+    if (!this.isInBounds(x, y)) return;
+    this.tiles[y][x] = { ...this.tiles[y][x], owner };
+  }
+
   /** Returns true when (x, y) lies within the map boundaries. */
   isInBounds(x: number, y: number): boolean {
     return x >= 0 && x < this.width && y >= 0 && y < this.height;
@@ -134,34 +163,111 @@ export class GameMap {
     return this.getTilesInRange(x, y, visionRange);
   }
 
+  // ---------------------------------------------------------------------------
+  // Territory queries
+  // ---------------------------------------------------------------------------
+
+  /** Returns every tile claimed by `tribe`, in row-major order. */
+  getOwnedTiles(tribe: TribeId): Tile[] {
+    const result: Tile[] = [];
+
+    for (const row of this.tiles) {
+      for (const tile of row) {
+        if (tile.owner === tribe) {
+          result.push(tile);
+        }
+      }
+    }
+
+    return result;
+  }
+
   // ---------------------------------------------------------------------------
   // Gameplay helpers
   // ---------------------------------------------------------------------------
 
+  /** Returns true if the tile at (x, y) has a road or a bridge. */
+  hasRoad(x: number, y: number): boolean {
+    const tile = this.getTile(x, y);
+    return tile !== null && isRoadBuilding(tile.building);
+  }
+
+  /**
+   * Whether `mover` may enter tile `to` at all (game-mechanics.md §10):
+   *   Land units : mountains need Climbing; water only via a bridge
+   *   Water skill: shallow water needs Fishing, ocean needs Sailing; no land
+   *   Air skill  : ignores all terrain barriers
+   */
+  isPassable(to: Coord, mover: MovementContext): boolean {
+    const dest = this.getTile(to.x, to.y);
+    if (dest === null) return false;
+
+    const { unit, techs } = mover;
+    if (unit.skills.includes(UnitSkill.Air)) return true;
+
+    if (unit.skills.includes(UnitSkill.Water)) {
+      switch (dest.type) {
+        case TileType.ShallowWater:
+          return techs.hasResearched('fishing');
+        case TileType.Ocean:
+          return techs.hasResearched('sailing');
+        default:
+          return false;
+      }
+    }
+
+    switch (dest.type) {
+      case TileType.Field:
+      case TileType.Forest:
+        return true;
+      case TileType.Mountain:
+        return techs.hasResearched('climbing');
+      case TileType.ShallowWater:
+      case TileType.Ocean:
+        return isRoadBuilding(dest.building);
+    }
+  }
+
   /**
-   * Movement cost to step from `from` into `to`.
+   * Movement cost to step from `from` into `to`. Pass `mover` to get the
+   * cost for a specific unit; without it, a plain land unit is assumed.
+   * Use `isPassable` to check whether the unit may enter the tile at all.
    *
    * Based on game-mechanics.md §10:
    *   Field -> Field  : 1.0
-   *   Entering forest  : uses all remaining movement (99)
-   *   Entering mountain: uses all remaining movement (99)
-   *   Water (shallow / ocean): impassable for now (99)
+   *   Road -> Road    : 0.5 (friendly or neutral roads only; bridges count as roads)
+   *   Onto a road     : 1.0 (a road negates the forest penalty; a bridge crosses water)
+   *   Entering forest  : uses all remaining movement (99), 1.0 with Creep
+   *   Entering mountain: uses all remaining movement (99), 1.0 with Creep
+   *   Water (shallow / ocean): 1.0 for Water units, otherwise 99
+   *   Air skill       : 1.0 everywhere, roads unused
    */
-  getMovementCost(_from: Coord, to: Coord): number {
+  getMovementCost(from: Coord, to: Coord, mover?: MovementContext): number {
     const dest = this.getTile(to.x, to.y);
     if (dest === null) return IMPASSABLE_COST;
 
+    const skills = mover?.unit.skills ?? [];
+    if (skills.includes(UnitSkill.Air)) return 1.0;
+    const isNaval = skills.includes(UnitSkill.Water);
+
+    if (!isNaval && isRoadBuilding(dest.building)) {
+      const src = this.getTile(from.x, from.y);
+      if (src !== null && isRoadBuilding(src.building)
+        && canUseRoad(src, mover?.tribe) && canUseRoad(dest, mover?.tribe)) {
+        return ROAD_COST;
+      }
+      return 1.0;
+    }
+
     switch (dest.type) {
       case TileType.Field:
         return 1.0;
       case TileType.Forest:
-        return IMPASSABLE_COST;
       case TileType.Mountain:
-        return IMPASSABLE_COST;
+        return skills.includes(UnitSkill.Creep) ? 1.0 : IMPASSABLE_COST;
       case TileType.ShallowWater:
-        return IMPASSABLE_COST;
       case TileType.Ocean:
-        return IMPASSABLE_COST;
+        return isNaval ? 1.0 : IMPASSABLE_COST;
     }
   }
 
@@ -193,3 +299,13 @@ export class GameMap {
     }
   }
 }
+
+/** Roads and bridges are both usable as roads. */
+function isRoadBuilding(building: BuildingType | undefined): boolean {
+  return building === BuildingType.Road || building === BuildingType.Bridge;
+}
+
+/** A road gives the road bonus if it is unclaimed, neutral, or owned by the mover. */
+function canUseRoad(tile: Tile, mover: TribeId | undefined): boolean {
+  return tile.owner === undefined || tile.owner === 'neutral' || tile.owner === mover;
+}
@@ -4,23 +4,59 @@
  * Pure TypeScript -- no browser or rendering dependencies.
  */
 
-import { GameMap } from './GameMap.js';
+import { GameMap, MovementContext } from './GameMap.js';
 import {
+  BuildingType,
   CityInstance,
   CityLevelRewardOption,
   Coord,
   Difficulty,
   GameConfig,
   TechId,
+  TerrainActionKind,
+  Tile,
   TileType,
   TribeId,
+  UnitActionState,
   UnitInstance,
+  UnitSkill,
   UnitType,
 } from './types.js';
 import { PlayerTechState, calculateTechCost } from './TechTree.js';
-import { resolveCombat, getDefenseBonusForTerrain, getCityDefenseBonus } from './Combat.js';
-import { calculateCityIncome, levelUp, canLevelUp } from './City.js';
-import { createUnit, getUnitBaseStats } from './UnitFactory.js';
+import {
+  resolveCombat,
+  resolveSplash,
+  getDefenseBonus,
+  canPromote,
+  promoteToVeteran,
+  AttackResult,
+  DefenseBonus,
+  SplashHit,
+} from './Combat.js';
+import {
+  calculateCityIncome,
+  levelUp,
+  canLevelUp,
+  getCityTerritory,
+  addPopulation,
+  getUnitCapacity,
+  createCity,
+  captureCity,
+} from './City.js';
+import {
+  BuildContext,
+  canBuild,
+  getAllBuildings,
+  getBuildingDefinition,
+  getBuildingIncome,
+  getBuildingPopulation,
+} from './Buildings.js';
+import { CityConnection, findCityConnections } from './Connections.js';
+import { canHarvest, getHarvestDefinition } from './Harvest.js';
+import { canPerformTerrainAction, getAllTerrainActions, getTerrainActionDefinition } from './TerrainActions.js';
+import { createUnit, getUnitBaseStats, embarkUnit, disembarkUnit, isNavalUnit } from './UnitFactory.js';
+import { PlayerVisibility, getVisionRange } from './Visibility.js';
+import { canUnitAttack, canUnitMove, getStateAfterAttack, getStateAfterMove, hasUnitActed } from './UnitActions.js';
 
 /** Sentinel cost used by GameMap to indicate impassable terrain. */
 const IMPASSABLE_COST = 99;
@@ -36,6 +72,23 @@ const AI_DIFFICULTY_BONUS: Record<Difficulty, number> = {
   crazy: 5,
 };
 
+/** Vessels a Raft can be upgraded to at a port; each is unlocked by its own tech. */
+const NAVAL_UPGRADE_TYPES: readonly UnitType[] = [
+  UnitType.Scout,    // Sailing
+  UnitType.Rammer,   // Ramming
+  UnitType.Bomber,   // Navigation
+];
+
+/** HP a Heal unit (Mind Bender) restores to each adjacent friendly unit. */
+const HEAL_AMOUNT = 4;
+
+/** HP a recovering unit regains inside / outside its own territory. */
+const RECOVER_FRIENDLY = 4;
+const RECOVER_ELSEWHERE = 2;
+
+/** Steps the Explorer level-up reward walks, charting the tiles around each. */
+const EXPLORER_STEPS = 15;
+
 /** Starting tech per tribe. */
 const TRIBE_STARTING_TECH: Partial<Record<TribeId, TechId>> = {
   xinxi: 'climbing',
@@ -63,6 +116,15 @@ export class GameState {
   /** All cities on the map. */
   private readonly cities: CityInstance[] = [];
 
+  /** The position of the city holding each claimed tile, keyed by "x,y". */
+  private readonly territory: Map<string, Coord> = new Map();
+
+  /** Routes linking each tribe's capital to its connected cities. */
+  private connections: CityConnection[] = [];
+
+  /** Per-player fog of war. */
+  private readonly visibility: PlayerVisibility[];
+
   /** Whether the game has been won (player index, or -1 for none). */
   private winner: number = -1;
 
@@ -79,6 +141,9 @@ export class GameState {
       const startingTech = TRIBE_STARTING_TECH[tribeId];
       return new PlayerTechState(startingTech ? [startingTech] : []);
     });
+
+    // Initialize fog of war (everything starts unexplored)
+    this.visibility = config.tribes.map(() => new PlayerVisibility(map.width, map.height));
   }
 
   // ---------------------------------------------------------------------------
@@ -116,10 +181,19 @@ export class GameState {
     // Collect income for the new current player
     this.collectIncome(this.currentPlayer);
 
-    // Reset moved/attacked flags for the new current player's units
+    // Refresh the new current player's vision at turn start
+    this.updateVisibility(this.currentPlayer);
+
+    // Reset the action state for the new current player's units; Hide units
+    // not next to an enemy slip back out of sight. With auto-recover, units
+    // left idle last turn recover first.
     for (const [id, unit] of this.units) {
       if (unit.owner === this.currentPlayer) {
-        this.units.set(id, { ...unit, hasMoved: false, hasAttacked: false });
+        const currentHp = this.config.autoRecover && unit.actionState === UnitActionState.Ready
+          ? unit.currentHp + this.getRecoverAmount(id)
+          : unit.currentHp;
+        const isHidden = unit.skills.includes(UnitSkill.Hide) && !this.isNextToEnemy(unit);
+        this.units.set(id, { ...unit, currentHp, actionState: UnitActionState.Ready, isHidden });
       }
     }
 
@@ -156,7 +230,7 @@ export class GameState {
     const playerCities = this.getCitiesForPlayer(tribeId);
     let income = 0;
     for (const city of playerCities) {
-      income += calculateCityIncome(city);
+      income += this.getCityIncome(city);
     }
     // AI difficulty bonus (player 0 is always human)
     if (player > 0) {
@@ -165,6 +239,36 @@ export class GameState {
     return income;
   }
 
+  /**
+   * Star income for a single city, including Markets in its territory.
+   * A city under siege produces nothing.
+   */
+  getCityIncome(city: CityInstance): number {
+    if (this.isCityUnderSiege(city)) return 0;
+
+    let income = calculateCityIncome(city);
+    for (const { x, y } of getCityTerritory(city)) {
+      const owner = this.getTerritoryCityAt(x, y);
+      if (owner?.position.x === city.position.x && owner.position.y === city.position.y) {
+        income += getBuildingIncome(this.map, x, y);
+      }
+    }
+    return income;
+  }
+
+  /** Check if an enemy unit is standing on a city's tile. */
+  isCityUnderSiege(city: CityInstance): boolean {
+    if (city.owner === 'neutral') return false;
+    const occupant = this.getUnitAt(city.position.x, city.position.y);
+    return occupant !== undefined && occupant.owner !== this.getPlayerForTribe(city.owner);
+  }
+
+  /** Get a player's cities that are under siege. */
+  getSiegedCities(player: number): CityInstance[] {
+    return this.getCitiesForPlayer(this.getTribeForPlayer(player))
+      .filter(city => this.isCityUnderSiege(city));
+  }
+
   /** Collect income at turn start for the given player. */
   private collectIncome(player: number): void {
     const income = this.getIncome(player);
@@ -175,9 +279,12 @@ export class GameState {
   // Cities
   // ---------------------------------------------------------------------------
 
-  /** Add a city to the game. */
+  /** Add a city to the game, claiming its unowned territory. */
   addCity(city: CityInstance): void {
     this.cities.push(city);
+    this.claimTerritory(city);
+    this.updateConnections();
+    this.updateVisibilityForTribe(city.owner);
   }
 
   /** Get all cities belonging to a tribe. */
@@ -190,6 +297,16 @@ export class GameState {
     return this.cities.find(c => c.position.x === x && c.position.y === y);
   }
 
+  /**
+   * Get the city holding (x, y), or undefined if no city has claimed it.
+   * A claimed tile belongs to the city that claimed it, even where the
+   * borders of two cities overlap; neutral villages hold no tiles.
+   */
+  getTerritoryCityAt(x: number, y: number): CityInstance | undefined {
+    const holder = this.territory.get(`${x},${y}`);
+    return holder === undefined ? undefined : this.getCityAt(holder.x, holder.y);
+  }
+
   /** Get all cities. */
   getAllCities(): CityInstance[] {
     return [...this.cities];
@@ -201,13 +318,115 @@ export class GameState {
     return this.cities.filter(c => c.owner === tribeId).length;
   }
 
-  /** Capture a city: change its owner to the given tribe. */
-  captureCity(x: number, y: number, newOwner: TribeId): boolean {
-    const city = this.getCityAt(x, y);
-    if (!city) return false;
-    if (city.owner === newOwner) return false;
-    this.updateCity({ ...city, owner: newOwner, isCapital: false });
-    return true;
+  /**
+   * Check if a unit can capture the city it stands on: an enemy city or
+   * neutral village the unit has held since the start of the turn.
+   */
+  canCaptureCity(unitId: string): boolean {
+    const unit = this.units.get(unitId);
+    if (unit === undefined || unit.owner !== this.currentPlayer) return false;
+    if (hasUnitActed(unit)) return false;
+
+    const city = this.getCityAt(unit.x, unit.y);
+    return city !== undefined && city.owner !== this.getTribeForPlayer(unit.owner);
+  }
+
+  /**
+   * Capture the city a unit stands on; this uses up the unit's turn.
+   * A neutral village becomes a fresh level-1 city of the capturing tribe,
+   * an enemy city changes hands keeping its level and population.
+   * Returns the captured city, or undefined if the capture is not possible.
+   */
+  captureCity(unitId: string): CityInstance | undefined {
+    if (!this.canCaptureCity(unitId)) return undefined;
+
+    const unit = this.units.get(unitId)!;
+    const city = this.getCityAt(unit.x, unit.y)!;
+    const tribe = this.getTribeForPlayer(unit.owner);
+    const captured = city.owner === 'neutral'
+      ? createCity(tribe, city.position, city.name, false)
+      : captureCity(city, tribe);
+    this.transferCity(city, captured);
+
+    const capturer = this.units.get(unitId)!;
+    this.units.set(unitId, { ...capturer, actionState: UnitActionState.Done });
+    return captured;
+  }
+
+  /**
+   * Hand a city over to its new owner.
+   * The tiles it held change hands with it. Units the city supported for its
+   * old owner lose their home city and stay on as free units; the capturing
+   * unit on the tile is rehomed there.
+   */
+  private transferCity(city: CityInstance, captured: CityInstance): void {
+    const { x, y } = city.position;
+    const held = getCityTerritory(city).filter(t => this.getTerritoryCityAt(t.x, t.y) === city);
+    this.updateCity(captured);
+    for (const t of held) {
+      this.map.setOwner(t.x, t.y, captured.owner);
+    }
+    this.claimTerritory(captured);
+    this.updateConnections();
+
+    for (const [id, unit] of this.units) {
+      if (!isHomeCity(unit, city)) continue;
+      this.units.set(id, { ...unit, homeCity: undefined });
+    }
+    const capturer = this.getUnitAt(x, y);
+    if (capturer && capturer.owner === this.getPlayerForTribe(captured.owner)) {
+      this.units.set(capturer.id, { ...capturer, homeCity: city.position });
+    }
+
+    this.updateVisibilityForTribe(city.owner);
+    this.updateVisibilityForTribe(captured.owner);
+  }
+
+  /**
+   * Claim the unowned tiles inside a city's border for its owner. Tiles
+   * already held by another city are left alone, so borders never overlap.
+   * Neutral villages hold no territory.
+   */
+  private claimTerritory(city: CityInstance): void {
+    if (city.owner === 'neutral') return;
+    for (const { x, y } of getCityTerritory(city)) {
+      const tile = this.map.getTile(x, y);
+      if (tile !== null && tile.owner === undefined) {
+        this.map.setOwner(x, y, city.owner);
+        this.territory.set(`${x},${y}`, city.position);
+      }
+    }
+  }
+
+  /** Get the routes linking a tribe's capital to its connected cities. */
+  getCityConnections(tribe: TribeId): CityConnection[] {
+    return this.connections.filter(c => c.tribe === tribe);
+  }
+
+  /**
+   * Recompute the city connections of every tribe. A newly connected city
+   * and its capital each gain 1 population; a cut route takes it back.
+   */
+  private updateConnections(): void {
+    const next = this.config.tribes.flatMap(tribe => findCityConnections(this.map, this.cities, tribe));
+    const key = (c: CityConnection): string => `${c.capital.x},${c.capital.y}>${c.city.x},${c.city.y}`;
+    const before = new Set(this.connections.map(key));
+    const after = new Set(next.map(key));
+
+    for (const c of this.connections) {
+      if (!after.has(key(c))) this.creditConnection(c, -1);
+    }
+    for (const c of next) {
+      if (!before.has(key(c))) this.creditConnection(c, 1);
+    }
+    this.connections = next;
+  }
+
+  private creditConnection(connection: CityConnection, amount: number): void {
+    for (const { x, y } of [connection.capital, connection.city]) {
+      const city = this.getCityAt(x, y);
+      if (city) this.updateCity(addPopulation(city, amount));
+    }
   }
 
   /** Update a city in-place (replaces the city at the same position). */
@@ -231,37 +450,108 @@ export class GameState {
 
     const updated = levelUp(city, reward);
     this.updateCity(updated);
+    if (reward.kind === 'borderGrowth') {
+      this.claimTerritory(updated);
+      this.updateConnections();
+    }
 
     // Handle external reward effects
-    if (reward.kind === 'stars') {
-      const player = this.getPlayerForTribe(city.owner);
-      if (player >= 0) {
-        this.addStars(player, reward.amount);
-      }
+    const player = this.getPlayerForTribe(city.owner);
+    switch (reward.kind) {
+      case 'stars':
+        if (player >= 0) this.addStars(player, reward.amount);
+        break;
+      case 'explorer':
+        this.sendExplorer(player, city.position);
+        break;
+      case 'superUnit':
+        if (player >= 0) this.spawnSuperUnit(player, updated, reward.unitType);
+        break;
     }
 
     return reward;
   }
 
+  /**
+   * Explorer reward: walk out from `start`, each step heading for the nearest
+   * tile the player has not explored yet and charting the tiles around it.
+   * Stops early once the whole map is explored.
+   */
+  private sendExplorer(player: number, start: Coord): void {
+    const visibility = this.visibility[player];
+    if (!visibility) return;
+
+    let { x, y } = start;
+    for (let step = 0; step < EXPLORER_STEPS; step++) {
+      const target = this.findNearestUnexplored(visibility, x, y);
+      if (target === undefined) return;
+
+      x += Math.sign(target.x - x);
+      y += Math.sign(target.y - y);
+      visibility.explore(x, y);
+      for (const t of this.map.getTilesInRange(x, y, 1)) {
+        visibility.explore(t.x, t.y);
+      }
+    }
+  }
+
+  /** The unexplored tile closest to (x, y), or undefined if every tile is explored. */
+  private findNearestUnexplored(visibility: PlayerVisibility, x: number, y: number): Coord | undefined {
+    let nearest: Coord | undefined;
+    let best = Infinity;
+    for (let ty = 0; ty < this.map.height; ty++) {
+      for (let tx = 0; tx < this.map.width; tx++) {
+        const distance = Math.max(Math.abs(tx - x), Math.abs(ty - y));
+        if (distance < best && !visibility.isExplored(tx, ty)) {
+          nearest = { x: tx, y: ty };
+          best = distance;
+        }
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Spawn a city's super unit on the city tile, or on the first free land
+   * tile next to it if the city tile is taken. Nothing spawns if the city
+   * is surrounded.
+   */
+  private spawnSuperUnit(player: number, city: CityInstance, unitType: UnitType): void {
+    const { x, y } = city.position;
+    const spot = [this.map.getTile(x, y), ...this.map.getNeighbors(x, y)]
+      .find((t): t is Tile => t !== null && !isWaterType(t.type) && this.getUnitAt(t.x, t.y) === undefined);
+    if (spot === undefined) return;
+
+    this.addUnit({ ...createUnit(unitType, player, spot.x, spot.y), homeCity: city.position });
+  }
+
   // ---------------------------------------------------------------------------
   // Combat
   // ---------------------------------------------------------------------------
 
+  /**
+   * Get the defense bonus for a unit on its current tile: the city bonus
+   * if it is fortified in its own city, otherwise the terrain bonus.
+   */
+  getDefenseBonus(defender: UnitInstance): DefenseBonus {
+    const tile = this.map.getTile(defender.x, defender.y);
+    const city = this.getCityAt(defender.x, defender.y);
+    const friendlyCity = city?.owner === this.getTribeForPlayer(defender.owner) ? city : undefined;
+    return getDefenseBonus(defender, tile?.type ?? TileType.Field, friendlyCity);
+  }
+
   /**
    * Execute an attack from one unit to a target position.
-   * Returns the combat result summary, or undefined if invalid.
+   * Splash attackers also hit enemy units next to the target for half damage.
+   * Returns every unit affected, removed and killed, or undefined if invalid.
    */
-  attackUnit(
-    attackerId: string,
-    targetX: number,
-    targetY: number,
-  ): { damageToDefender: number; damageToAttacker: number; defenderKilled: boolean; attackerKilled: boolean } | undefined {
+  attackUnit(attackerId: string, targetX: number, targetY: number): AttackResult | undefined {
     const attacker = this.units.get(attackerId);
     if (!attacker) return undefined;
     if (attacker.owner !== this.currentPlayer) return undefined;
-    if (attacker.hasAttacked) return undefined;
+    if (!canUnitAttack(attacker)) return undefined;
 
-    const defender = this.getUnitAt(targetX, targetY);
+    const defender = this.getVisibleUnitAt(targetX, targetY, attacker.owner);
     if (!defender) return undefined;
     if (defender.owner === attacker.owner) return undefined;
 
@@ -269,29 +559,44 @@ export class GameState {
     const dist = Math.max(Math.abs(attacker.x - targetX), Math.abs(attacker.y - targetY));
     if (dist > attacker.range) return undefined;
 
-    // Calculate defense bonus
-    const tile = this.map.getTile(targetX, targetY);
-    let defenseBonus = tile ? getDefenseBonusForTerrain(tile.type) : 1.0;
+    const defenseBonus = this.getDefenseBonus(defender);
+    const result = resolveCombat(attacker, defender, defenseBonus.multiplier, dist);
+    const splash = this.previewSplash(attacker, targetX, targetY);
 
-    // City defense bonus overrides terrain if defender is in a city
-    const defenderCity = this.getCityAt(targetX, targetY);
-    if (defenderCity) {
-      defenseBonus = getCityDefenseBonus(defenderCity.hasWall);
-    }
-
-    const result = resolveCombat(attacker, defender, defenseBonus, dist);
+    const affected: UnitInstance[] = [result.defender, ...splash.map(s => s.unit)];
+    const killed: UnitInstance[] = [];
+    const removed: string[] = [];
 
     // Apply results
-    if (result.defenderKilled) {
-      this.units.delete(defender.id);
-    } else {
-      this.units.set(defender.id, result.defender);
+    for (const hit of [{ unit: result.defender, killed: result.defenderKilled }, ...splash]) {
+      if (hit.killed) {
+        this.units.delete(hit.unit.id);
+        killed.push(hit.unit);
+        removed.push(hit.unit.id);
+      } else {
+        this.units.set(hit.unit.id, hit.unit);
+      }
     }
 
+    // Splash kills count toward the attacker's record; attacking reveals a hidden unit
+    const splashKills = splash.filter(s => s.killed).length;
+    const updatedAttacker: UnitInstance = {
+      ...result.attacker,
+      kills: result.attacker.kills + splashKills,
+      isHidden: false,
+    };
+    if (result.damageToAttacker > 0) affected.push(updatedAttacker);
+
     if (result.attackerKilled) {
       this.units.delete(attacker.id);
+      removed.push(attacker.id);
     } else {
-      this.units.set(attacker.id, result.attacker);
+      this.units.set(attacker.id, updatedAttacker);
+    }
+
+    // Dead units no longer provide vision
+    for (const owner of new Set([attacker.owner, ...affected.map(u => u.owner)])) {
+      this.updateVisibility(owner);
     }
 
     return {
@@ -299,9 +604,27 @@ export class GameState {
       damageToAttacker: result.damageToAttacker,
       defenderKilled: result.defenderKilled,
       attackerKilled: result.attackerKilled,
+      splash,
+      affected,
+      removed,
+      killed,
     };
   }
 
+  /**
+   * Predict the Splash damage an attack on (targetX, targetY) would deal to
+   * enemy units next to the target that the attacker can see.
+   * Empty for attackers without Splash.
+   */
+  previewSplash(attacker: UnitInstance, targetX: number, targetY: number): SplashHit[] {
+    if (!attacker.skills.includes(UnitSkill.Splash)) return [];
+
+    return this.map.getNeighbors(targetX, targetY)
+      .map(t => this.getVisibleUnitAt(t.x, t.y, attacker.owner))
+      .filter((u): u is UnitInstance => u !== undefined && u.owner !== attacker.owner)
+      .map(u => resolveSplash(attacker, u, this.getDefenseBonus(u).multiplier));
+  }
+
   // ---------------------------------------------------------------------------
   // Technology
   // ---------------------------------------------------------------------------
@@ -351,6 +674,7 @@ export class GameState {
     const player = this.getPlayerForTribe(city.owner);
     if (player < 0) return undefined;
     if (player !== this.currentPlayer) return undefined;
+    if (!this.hasCityCapacity(city)) return undefined;
 
     // Check tech unlock (warriors are always available)
     if (unitType !== UnitType.Warrior) {
@@ -361,16 +685,359 @@ export class GameState {
     // Check cost
     const stats = getUnitBaseStats(unitType);
     if (stats.cost === null) return undefined; // Not trainable (Giant, etc.)
+    if (stats.skills.includes(UnitSkill.Water)) return undefined; // Naval units come from embarking
     if (!this.spendStars(player, stats.cost)) return undefined;
 
     // Check tile is empty
     if (this.getUnitAt(cityX, cityY) !== undefined) return undefined;
 
-    const unit = createUnit(unitType, player, cityX, cityY);
+    const unit: UnitInstance = { ...createUnit(unitType, player, cityX, cityY), homeCity: city.position };
     this.addUnit(unit);
     return unit;
   }
 
+  /** Get the units a city currently supports. */
+  getCityUnits(city: CityInstance): UnitInstance[] {
+    return Array.from(this.units.values()).filter(u => isHomeCity(u, city));
+  }
+
+  /** Check if a city can support one more unit. */
+  hasCityCapacity(city: CityInstance): boolean {
+    return this.getCityUnits(city).length < getUnitCapacity(city.level);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Naval Upgrades
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get the vessel types a unit can be upgraded to right now, ignoring cost.
+   * Only a Raft on a friendly port can upgrade, to vessels its owner has the tech for.
+   */
+  getNavalUpgrades(unitId: string): UnitType[] {
+    const unit = this.units.get(unitId);
+    if (unit === undefined || unit.type !== UnitType.Raft) return [];
+    if (!this.isFriendlyPort(unit.x, unit.y, this.getTribeForPlayer(unit.owner))) return [];
+
+    const techState = this.techStates[unit.owner];
+    if (!techState) return [];
+    return NAVAL_UPGRADE_TYPES.filter(type => techState.isUnitUnlocked(type));
+  }
+
+  /**
+   * Upgrade a Raft of the current player into a Scout, Rammer or Bomber.
+   * Pays the vessel's star cost and keeps the carried land unit.
+   * Returns the upgraded unit, or undefined if the upgrade is not possible.
+   */
+  upgradeNavalUnit(unitId: string, vesselType: UnitType): UnitInstance | undefined {
+    const unit = this.units.get(unitId);
+    if (unit === undefined || unit.owner !== this.currentPlayer) return undefined;
+    if (!this.getNavalUpgrades(unitId).includes(vesselType)) return undefined;
+
+    const cost = getUnitBaseStats(vesselType).cost ?? 0;
+    if (!this.spendStars(unit.owner, cost)) return undefined;
+
+    const upgraded = embarkUnit(unit, unit.x, unit.y, vesselType);
+    this.units.set(unitId, upgraded);
+    this.updateVisibility(unit.owner);
+    return upgraded;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Unit Skills
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get the enemy units a Convert unit (Mind Bender) could convert right now:
+   * visible and within range, and only while a city can support the
+   * converted unit (see getConvertHome).
+   */
+  getConvertTargets(unitId: string): UnitInstance[] {
+    const unit = this.units.get(unitId);
+    if (unit === undefined || !unit.skills.includes(UnitSkill.Convert)) return [];
+    if (!canUnitAttack(unit) || this.getConvertHome(unit) === undefined) return [];
+
+    return this.getVisibleUnits(unit.owner).filter(u =>
+      u.owner !== unit.owner
+      && Math.max(Math.abs(u.x - unit.x), Math.abs(u.y - unit.y)) <= unit.range);
+  }
+
+  /**
+   * Convert the enemy unit at (targetX, targetY) to the current player.
+   * Uses the converter's attack; the converted unit cannot act this turn and
+   * is supported by the city getConvertHome picks.
+   * Returns the converted unit, or undefined if the conversion is not possible.
+   */
+  convertUnit(unitId: string, targetX: number, targetY: number): UnitInstance | undefined {
+    const unit = this.units.get(unitId);
+    if (unit === undefined || unit.owner !== this.currentPlayer) return undefined;
+
+    const target = this.getConvertTargets(unitId).find(u => u.x === targetX && u.y === targetY);
+    const home = this.getConvertHome(unit);
+    if (target === undefined || home === undefined) return undefined;
+
+    const converted: UnitInstance = {
+      ...target,
+      owner: unit.owner,
+      actionState: UnitActionState.Done,
+      isHidden: false,
+      homeCity: home.position,
+    };
+    this.units.set(target.id, converted);
+    this.units.set(unitId, { ...unit, actionState: getStateAfterAttack(unit, false) });
+
+    this.updateVisibility(unit.owner);
+    this.updateVisibility(target.owner);
+    return converted;
+  }
+
+  /**
+   * Get the wounded friendly units next to a Heal unit (Mind Bender),
+   * or an empty list if it cannot heal right now.
+   */
+  getHealTargets(unitId: string): UnitInstance[] {
+    const unit = this.units.get(unitId);
+    if (unit === undefined || !unit.skills.includes(UnitSkill.Heal)) return [];
+    if (!canUnitAttack(unit)) return [];
+
+    return this.map.getNeighbors(unit.x, unit.y)
+      .map(t => this.getUnitAt(t.x, t.y))
+      .filter((u): u is UnitInstance => u !== undefined && u.owner === unit.owner && u.currentHp < u.maxHp);
+  }
+
+  /**
+   * Heal every wounded friendly unit next to a Heal unit by up to 4 HP,
+   * instead of attacking. Returns the healed units, or undefined if none.
+   */
+  healAdjacent(unitId: string): UnitInstance[] | undefined {
+    const unit = this.units.get(unitId);
+    if (unit === undefined || unit.owner !== this.currentPlayer) return undefined;
+
+    const targets = this.getHealTargets(unitId);
+    if (targets.length === 0) return undefined;
+
+    const healed = targets.map(u => ({ ...u, currentHp: Math.min(u.maxHp, u.currentHp + HEAL_AMOUNT) }));
+    for (const u of healed) {
+      this.units.set(u.id, u);
+    }
+    this.units.set(unitId, { ...unit, actionState: getStateAfterAttack(unit, false) });
+    return healed;
+  }
+
+  /**
+   * HP a unit would regain by recovering: 4 in its owner's territory,
+   * 2 elsewhere, capped at max HP. 0 if it is at full health.
+   */
+  getRecoverAmount(unitId: string): number {
+    const unit = this.units.get(unitId);
+    if (unit === undefined) return 0;
+
+    const territory = this.getTerritoryCityAt(unit.x, unit.y);
+    const friendly = territory !== undefined && territory.owner === this.getTribeForPlayer(unit.owner);
+    const amount = friendly ? RECOVER_FRIENDLY : RECOVER_ELSEWHERE;
+    return Math.min(amount, unit.maxHp - unit.currentHp);
+  }
+
+  /** Check if a wounded unit can recover: it must not have moved or attacked this turn. */
+  canRecover(unitId: string): boolean {
+    const unit = this.units.get(unitId);
+    if (unit === undefined || unit.owner !== this.currentPlayer) return false;
+    if (hasUnitActed(unit)) return false;
+    return this.getRecoverAmount(unitId) > 0;
+  }
+
+  /**
+   * Recover HP instead of acting; this consumes the unit's entire turn.
+   * Returns the updated unit, or undefined if it cannot recover.
+   */
+  recoverUnit(unitId: string): UnitInstance | undefined {
+    if (!this.canRecover(unitId)) return undefined;
+
+    const unit = this.units.get(unitId)!;
+    const recovered: UnitInstance = {
+      ...unit,
+      currentHp: unit.currentHp + this.getRecoverAmount(unitId),
+      actionState: UnitActionState.Done,
+    };
+    this.units.set(unitId, recovered);
+    return recovered;
+  }
+
+  /** Check if the current player can promote a unit to veteran (3 kills, not Static). */
+  canPromoteUnit(unitId: string): boolean {
+    const unit = this.units.get(unitId);
+    return unit !== undefined && unit.owner === this.currentPlayer && canPromote(unit);
+  }
+
+  /**
+   * Promote a unit to veteran: +5 max HP and a full heal. Promotion does not
+   * use up the unit's action. Returns the updated unit, or undefined if not eligible.
+   */
+  promoteUnit(unitId: string): UnitInstance | undefined {
+    if (!this.canPromoteUnit(unitId)) return undefined;
+
+    const promoted = promoteToVeteran(this.units.get(unitId)!);
+    this.units.set(unitId, promoted);
+    return promoted;
+  }
+
+  /**
+   * The city that would support a unit converted by `unit`: its home city if
+   * that has room, or for a unit without a home city the nearest city of its
+   * tribe with room. Undefined if no such city can take another unit.
+   */
+  private getConvertHome(unit: UnitInstance): CityInstance | undefined {
+    if (unit.homeCity !== undefined) {
+      const home = this.getCityAt(unit.homeCity.x, unit.homeCity.y);
+      return home !== undefined && this.hasCityCapacity(home) ? home : undefined;
+    }
+
+    const tribe = this.getTribeForPlayer(unit.owner);
+    const distance = (c: CityInstance) => Math.max(Math.abs(c.position.x - unit.x), Math.abs(c.position.y - unit.y));
+    return this.cities
+      .filter(c => c.owner === tribe && this.hasCityCapacity(c))
+      .sort((a, b) => distance(a) - distance(b))[0];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Buildings
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Construct a building on (x, y) for the current player.
+   * Charges the star cost, sets the tile's building and adds its population
+   * to the city whose territory covers the tile.
+   * Returns false if the building cannot be placed there or is unaffordable.
+   */
+  build(x: number, y: number, type: BuildingType): boolean {
+    const tile = this.map.getTile(x, y);
+    if (tile === null) return false;
+
+    const player = this.currentPlayer;
+    const city = this.getTerritoryCityAt(x, y);
+    if (!canBuild(tile, type, this.getBuildContext(player, city))) return false;
+
+    const def = getBuildingDefinition(type);
+    if (!this.spendStars(player, def.cost)) return false;
+
+    this.placeBuilding(x, y, type);
+    return true;
+  }
+
+  /** Get the building types the current player could build on (x, y), ignoring cost. */
+  getBuildOptions(x: number, y: number): BuildingType[] {
+    const tile = this.map.getTile(x, y);
+    if (tile === null) return [];
+
+    const ctx = this.getBuildContext(this.currentPlayer, this.getTerritoryCityAt(x, y));
+    return getAllBuildings()
+      .filter(def => canBuild(tile, def.type, ctx))
+      .map(def => def.type);
+  }
+
+  /**
+   * Harvest the resource on (x, y) for the current player (Hunt, Fish, ...).
+   * Charges the cost, removes the resource and adds its population and stars.
+   * Returns false if nothing harvestable is there or it is unaffordable.
+   */
+  harvest(x: number, y: number): boolean {
+    const tile = this.map.getTile(x, y);
+    if (tile === null) return false;
+
+    const player = this.currentPlayer;
+    const city = this.getTerritoryCityAt(x, y);
+    const def = tile.resource !== undefined ? getHarvestDefinition(tile.resource) : undefined;
+    if (!city || !def || !canHarvest(tile, this.getBuildContext(player, city))) return false;
+    if (!this.spendStars(player, def.cost)) return false;
+
+    this.map.setResource(x, y, undefined);
+    this.addStars(player, def.stars);
+    if (def.population > 0) {
+      this.updateCity(addPopulation(city, def.population));
+    }
+    return true;
+  }
+
+  /** Check if the current player could harvest (x, y), ignoring cost. */
+  canHarvestAt(x: number, y: number): boolean {
+    const tile = this.map.getTile(x, y);
+    if (tile === null) return false;
+    return canHarvest(tile, this.getBuildContext(this.currentPlayer, this.getTerritoryCityAt(x, y)));
+  }
+
+  /**
+   * Transform the terrain on (x, y) for the current player (Clear, Burn or
+   * Grow Forest). Charges the cost, changes the tile and grants any stars.
+   * Returns false if the action is not available there or is unaffordable.
+   */
+  terrainAction(x: number, y: number, kind: TerrainActionKind): boolean {
+    const tile = this.map.getTile(x, y);
+    if (tile === null) return false;
+
+    const player = this.currentPlayer;
+    const ctx = this.getBuildContext(player, this.getTerritoryCityAt(x, y));
+    if (!canPerformTerrainAction(tile, kind, ctx)) return false;
+
+    const def = getTerrainActionDefinition(kind);
+    if (!this.spendStars(player, def.cost)) return false;
+
+    this.map.setTile(x, y, def.to);
+    this.map.setResource(x, y, def.resource);
+    this.addStars(player, def.stars);
+    return true;
+  }
+
+  /** Get the terrain actions the current player could perform on (x, y), ignoring cost. */
+  getTerrainActions(x: number, y: number): TerrainActionKind[] {
+    const tile = this.map.getTile(x, y);
+    if (tile === null) return [];
+
+    const ctx = this.getBuildContext(this.currentPlayer, this.getTerritoryCityAt(x, y));
+    return getAllTerrainActions()
+      .filter(def => canPerformTerrainAction(tile, def.kind, ctx))
+      .map(def => def.kind);
+  }
+
+  /** Build a road on (x, y) for the current player. */
+  buildRoad(x: number, y: number): boolean {
+    return this.build(x, y, BuildingType.Road);
+  }
+
+  /** Build a bridge on (x, y) for the current player. */
+  buildBridge(x: number, y: number): boolean {
+    return this.build(x, y, BuildingType.Bridge);
+  }
+
+  /**
+   * Set the building on (x, y) and credit any change in population to the
+   * cities covering that tile and its neighbours, so adjacency buildings
+   * (Sawmill, Windmill, Forge) grow when a matching neighbour is added.
+   */
+  private placeBuilding(x: number, y: number, type: BuildingType | undefined): void {
+    const affected = [{ x, y }, ...this.map.getNeighbors(x, y)];
+    const before = affected.map(t => getBuildingPopulation(this.map, t.x, t.y));
+
+    this.map.setBuilding(x, y, type);
+
+    affected.forEach((t, i) => {
+      const delta = getBuildingPopulation(this.map, t.x, t.y) - before[i];
+      const city = this.getTerritoryCityAt(t.x, t.y);
+      if (city && delta !== 0) {
+        this.updateCity(addPopulation(city, delta));
+      }
+    });
+    this.updateConnections();
+  }
+
+  private getBuildContext(player: number, city: CityInstance | undefined): BuildContext {
+    return {
+      map: this.map,
+      tribe: this.getTribeForPlayer(player),
+      techs: this.techStates[player],
+      city,
+    };
+  }
+
   // ---------------------------------------------------------------------------
   // Unit CRUD
   // ---------------------------------------------------------------------------
@@ -381,12 +1048,18 @@ export class GameState {
       return false;
     }
     this.units.set(unit.id, unit);
+    this.revealUnitsNextToEnemies();
+    this.updateVisibility(unit.owner);
     return true;
   }
 
   /** Remove a unit by ID. Returns true if the unit was found and removed. */
   removeUnit(unitId: string): boolean {
-    return this.units.delete(unitId);
+    const unit = this.units.get(unitId);
+    if (unit === undefined) return false;
+    this.units.delete(unitId);
+    this.updateVisibility(unit.owner);
+    return true;
   }
 
   /** Get a unit by ID, or undefined if not found. */
@@ -416,55 +1089,202 @@ export class GameState {
     return Array.from(this.units.values());
   }
 
+  /**
+   * Get the unit at (x, y) as seen by `viewer`: own units are always known,
+   * other units only while the tile is in the viewer's vision.
+   */
+  getVisibleUnitAt(x: number, y: number, viewer: number): UnitInstance | undefined {
+    const unit = this.getUnitAt(x, y);
+    if (unit === undefined) return undefined;
+    return this.isUnitVisibleTo(unit, viewer) ? unit : undefined;
+  }
+
+  /** Get all units `viewer` can currently see, including its own. */
+  getVisibleUnits(viewer: number): UnitInstance[] {
+    return this.getAllUnits().filter(u => this.isUnitVisibleTo(u, viewer));
+  }
+
+  private isUnitVisibleTo(unit: UnitInstance, viewer: number): boolean {
+    if (unit.owner === viewer) return true;
+    if (unit.isHidden) return false;
+    return this.visibility[viewer]?.isVisible(unit.x, unit.y) ?? false;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Fog of War
+  // ---------------------------------------------------------------------------
+
+  /** Get the fog-of-war grid for a player. */
+  getVisibility(player: number): PlayerVisibility {
+    return this.visibility[player];
+  }
+
+  /** Check if a tile is currently in a player's vision. */
+  isTileVisible(player: number, x: number, y: number): boolean {
+    return this.visibility[player]?.isVisible(x, y) ?? false;
+  }
+
+  /** Get all cities on tiles `viewer` has explored. */
+  getVisibleCities(viewer: number): CityInstance[] {
+    const visibility = this.visibility[viewer];
+    if (!visibility) return [];
+    return this.cities.filter(c => visibility.isExplored(c.position.x, c.position.y));
+  }
+
+  /**
+   * Recompute a player's vision from its units and cities.
+   * Tiles that drop out of sight stay explored.
+   */
+  private updateVisibility(player: number): void {
+    const visibility = this.visibility[player];
+    if (!visibility) return;
+
+    visibility.clearVision();
+
+    for (const unit of this.units.values()) {
+      if (unit.owner !== player) continue;
+      const tile = this.map.getTile(unit.x, unit.y);
+      const range = getVisionRange(unit, tile?.type);
+      visibility.reveal(unit.x, unit.y);
+      for (const t of this.map.getVisibleTiles(unit.x, unit.y, range)) {
+        visibility.reveal(t.x, t.y);
+      }
+    }
+
+    const tribe = this.config.tribes[player];
+    for (const city of this.cities) {
+      if (city.owner !== tribe) continue;
+      for (const coord of getCityTerritory(city)) {
+        visibility.reveal(coord.x, coord.y);
+      }
+    }
+  }
+
+  /** Recompute vision for the player controlling a tribe, if any. */
+  private updateVisibilityForTribe(tribeId: TribeId): void {
+    const player = this.getPlayerForTribe(tribeId);
+    if (player >= 0) {
+      this.updateVisibility(player);
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Movement
   // ---------------------------------------------------------------------------
 
   /**
-   * Attempt to move a unit to (toX, toY).
-   * Returns true if the move succeeded; false if invalid.
+   * Attempt to move a unit to (toX, toY). A unit bumping into an enemy it
+   * could not see stops next to it and reveals it, spending its move.
+   * Returns true if the move was carried out; false if invalid.
    */
   moveUnit(unitId: string, toX: number, toY: number): boolean {
     const unit = this.units.get(unitId);
     if (unit === undefined) return false;
     if (unit.owner !== this.currentPlayer) return false;
-    if (unit.hasMoved) return false;
+    if (!canUnitMove(unit)) return false;
 
     // Check destination is in movement range
-    const reachable = this.getMovementRange(unitId);
-    const key = `${toX},${toY}`;
-    if (!reachable.has(key)) return false;
+    const { reachable, previous } = this.searchMovement(unit);
+    if (!reachable.has(`${toX},${toY}`)) return false;
+
+    // A unit the mover could not see stops the move short and is revealed
+    const { stop, blocker } = this.resolveMoveDestination(unit, previous, toX, toY);
+    if (blocker !== undefined) this.units.set(blocker.id, { ...blocker, isHidden: false });
+    const { x, y } = stop;
+
+    // Move the unit, embarking at a friendly port or disembarking onto land
+    const ownerTribe = this.getTribeForPlayer(unit.owner);
+    const moved: UnitInstance = { ...unit, x, y, actionState: getStateAfterMove(unit) };
+    let next = moved;
+    if (!isNavalUnit(unit) && this.isFriendlyPort(x, y, ownerTribe)) {
+      next = embarkUnit(moved, x, y);
+    } else if (isNavalUnit(unit) && !this.isWaterAt(x, y)) {
+      next = disembarkUnit(moved, x, y) ?? moved;
+    }
+    this.units.set(unitId, next);
 
-    // Move the unit
-    this.units.set(unitId, {
-      ...unit,
-      x: toX,
-      y: toY,
-      hasMoved: true,
-    });
+    // Infiltrate units entering an enemy city start a rebellion instead of capturing
+    const city = this.getCityAt(x, y);
+    if (city && city.owner !== ownerTribe && city.owner !== 'neutral'
+      && unit.skills.includes(UnitSkill.Infiltrate)) {
+      this.infiltrateCity(next, city);
+      return true;
+    }
+
+    this.revealUnitsNextToEnemies();
+    this.updateVisibility(unit.owner);
+    return true;
+  }
+
+  /**
+   * Infiltration: the unit is spent and the city rebels. One hostile Warrior
+   * per city level spawns for the infiltrator on the city tile and free land
+   * around it, and the infiltrator's player takes the city's income in stars.
+   */
+  private infiltrateCity(unit: UnitInstance, city: CityInstance): void {
+    this.units.delete(unit.id);
+    const income = this.getCityIncome(city); // before the rebels lay siege to it
+
+    const { x, y } = city.position;
+    const spots = [this.map.getTile(x, y), ...this.map.getNeighbors(x, y)]
+      .filter((t): t is Tile => t !== null && !isWaterType(t.type) && this.getUnitAt(t.x, t.y) === undefined);
+    for (const spot of spots.slice(0, city.level)) {
+      this.addUnit({ ...createUnit(UnitType.Warrior, unit.owner, spot.x, spot.y), actionState: UnitActionState.Done });
+    }
+
+    this.addStars(unit.owner, income);
+    this.revealUnitsNextToEnemies();
+    this.updateVisibility(unit.owner);
+    this.updateVisibilityForTribe(city.owner);
+  }
 
-    // Capture city at destination if enemy or neutral
-    const city = this.getCityAt(toX, toY);
-    if (city) {
-      const ownerTribe = this.getTribeForPlayer(unit.owner);
-      if (city.owner !== ownerTribe) {
-        this.captureCity(toX, toY, ownerTribe);
+  /** Hidden units that end up next to an enemy are revealed. */
+  private revealUnitsNextToEnemies(): void {
+    for (const [id, unit] of this.units) {
+      if (unit.isHidden && this.isNextToEnemy(unit)) {
+        this.units.set(id, { ...unit, isHidden: false });
       }
     }
+  }
 
-    return true;
+  /** Check if any unit of another player stands next to `unit`. */
+  private isNextToEnemy(unit: UnitInstance): boolean {
+    return this.map.getNeighbors(unit.x, unit.y).some(n => {
+      const occupant = this.getUnitAt(n.x, n.y);
+      return occupant !== undefined && occupant.owner !== unit.owner;
+    });
   }
 
   /**
    * Computes the set of tiles a unit can move to using BFS.
+   * Remaining movement can be fractional: road-to-road steps cost 0.5.
+   * Entering a tile adjacent to an enemy unit (Zone of Control) ends
+   * movement there, unless the unit has Creep or Air.
+   * Land units can end their move on a friendly port to embark; vessels
+   * carrying a unit can end their move on land to disembark.
    */
   getMovementRange(unitId: string): Set<string> {
     const unit = this.units.get(unitId);
     if (unit === undefined) return new Set();
+    return this.searchMovement(unit).reachable;
+  }
 
+  /**
+   * The breadth-first search behind getMovementRange. Only units the mover
+   * can see block its way; `previous` maps each reached tile to the tile it
+   * was entered from, so a move's path can be walked back from its end.
+   */
+  private searchMovement(unit: UnitInstance): { reachable: Set<string>; previous: Map<string, string> } {
     const reachable = new Set<string>();
+    const previous = new Map<string, string>();
     const visited = new Map<string, number>();
     const queue: { x: number; y: number; remaining: number }[] = [];
+    const ignoresZoc = unit.skills.includes(UnitSkill.Creep) || unit.skills.includes(UnitSkill.Air);
+    const mover: MovementContext = {
+      unit,
+      tribe: this.getTribeForPlayer(unit.owner),
+      techs: this.techStates[unit.owner],
+    };
 
     const startKey = `${unit.x},${unit.y}`;
     visited.set(startKey, unit.movement);
@@ -478,15 +1298,17 @@ export class GameState {
         const cost = this.map.getMovementCost(
           { x: current.x, y: current.y },
           { x: neighbor.x, y: neighbor.y },
+          mover,
         );
 
         let newRemaining: number;
 
-        if (this.isWaterTile(neighbor.x, neighbor.y)) {
+        if (this.isEmbarkOrLanding(unit, neighbor.x, neighbor.y, mover)) {
+          // Switching between land and water always ends the move
+          newRemaining = 0;
+        } else if (!this.map.isPassable(neighbor, mover)) {
           continue;
-        }
-
-        if (cost >= IMPASSABLE_COST) {
+        } else if (cost >= IMPASSABLE_COST) {
           if (current.remaining >= unit.movement && unit.movement >= 1) {
             newRemaining = 0;
           } else {
@@ -497,6 +1319,10 @@ export class GameState {
           newRemaining = current.remaining - cost;
         }
 
+        if (!ignoresZoc && this.isInEnemyZoneOfControl(neighbor.x, neighbor.y, unit.owner)) {
+          newRemaining = 0;
+        }
+
         const nKey = `${neighbor.x},${neighbor.y}`;
         const prevBest = visited.get(nKey);
 
@@ -505,8 +1331,9 @@ export class GameState {
         }
 
         visited.set(nKey, newRemaining);
+        previous.set(nKey, `${current.x},${current.y}`);
 
-        const occupant = this.getUnitAt(neighbor.x, neighbor.y);
+        const occupant = this.getVisibleUnitAt(neighbor.x, neighbor.y, unit.owner);
 
         if (occupant === undefined) {
           reachable.add(nKey);
@@ -521,7 +1348,34 @@ export class GameState {
       }
     }
 
-    return reachable;
+    return { reachable, previous };
+  }
+
+  /**
+   * Where a move to (toX, toY) actually ends. Walking the path from the
+   * start, the unit bumps into the first enemy it could not see and stops on
+   * the last free tile before it (possibly its starting tile).
+   */
+  private resolveMoveDestination(
+    unit: UnitInstance,
+    previous: ReadonlyMap<string, string>,
+    toX: number,
+    toY: number,
+  ): { stop: Coord; blocker?: UnitInstance } {
+    const startKey = `${unit.x},${unit.y}`;
+    const path: Coord[] = [];
+    for (let key: string | undefined = `${toX},${toY}`; key !== undefined && key !== startKey; key = previous.get(key)) {
+      path.push(GameState.parseCoordKey(key));
+    }
+    path.reverse();
+
+    let stop: Coord = { x: unit.x, y: unit.y };
+    for (const step of path) {
+      const occupant = this.getUnitAt(step.x, step.y);
+      if (occupant !== undefined && occupant.owner !== unit.owner) return { stop, blocker: occupant };
+      if (occupant === undefined) stop = step;
+    }
+    return { stop };
   }
 
   /**
@@ -576,9 +1430,46 @@ export class GameState {
     return this.config.tribes.indexOf(tribeId);
   }
 
-  private isWaterTile(x: number, y: number): boolean {
+  /** Check if (x, y) has a port inside `tribe`'s territory. */
+  private isFriendlyPort(x: number, y: number, tribe: TribeId): boolean {
     const tile = this.map.getTile(x, y);
-    if (tile === null) return false;
-    return tile.type === TileType.ShallowWater || tile.type === TileType.Ocean;
+    if (tile === null || tile.building !== BuildingType.Port) return false;
+    return this.getTerritoryCityAt(x, y)?.owner === tribe;
+  }
+
+  /**
+   * Check if stepping onto (x, y) embarks a land unit (friendly port) or
+   * lands the unit carried by a vessel (passable land for that unit).
+   */
+  private isEmbarkOrLanding(unit: UnitInstance, x: number, y: number, mover: MovementContext): boolean {
+    if (!isNavalUnit(unit)) return this.isFriendlyPort(x, y, mover.tribe);
+    if (unit.carriedUnit === undefined || this.isWaterAt(x, y)) return false;
+    return this.map.isPassable({ x, y }, { ...mover, unit: unit.carriedUnit });
+  }
+
+  private isWaterAt(x: number, y: number): boolean {
+    const tile = this.map.getTile(x, y);
+    return tile !== null && isWaterType(tile.type);
   }
+
+  /**
+   * Check if a tile is adjacent to a unit not owned by `player` that `player`
+   * can see. Hidden units and units in fog exert no ZoC.
+   */
+  private isInEnemyZoneOfControl(x: number, y: number, player: number): boolean {
+    return this.map.getNeighbors(x, y).some(n => {
+      const occupant = this.getVisibleUnitAt(n.x, n.y, player);
+      return occupant !== undefined && occupant.owner !== player;
+    });
+  }
+
+}
+
+function isWaterType(type: TileType): boolean {
+  return type === TileType.ShallowWater || type === TileType.Ocean;
+}
+
+function isHomeCity(unit: UnitInstance, city: CityInstance): boolean {
+  return unit.homeCity !== undefined
+    && unit.homeCity.x === city.position.x && unit.homeCity.y === city.position.y;
 }
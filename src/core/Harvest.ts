@@ -0,0 +1,41 @@
+/**
+ * Resource harvest actions for PolyClone2.
+ * Pure TypeScript — no browser or rendering dependencies.
+ *
+ * Values match docs/design/game-mechanics.md (Technology and Economy).
+ * Crops and metal are not harvested directly; they need a Farm or Mine.
+ */
+
+import { HarvestDefinition, ResourceType, Tile } from './types.js';
+import { BuildContext } from './Buildings.js';
+
+/** Static harvest definitions — one per directly harvestable resource. */
+const HARVEST_DEFINITIONS: readonly HarvestDefinition[] = [
+  { resource: ResourceType.Animal, name: 'Hunt', cost: 2, population: 1, stars: 0, tech: 'hunting' },
+  { resource: ResourceType.Fruit, name: 'Harvest Fruit', cost: 2, population: 1, stars: 0, tech: 'organization' },
+  { resource: ResourceType.Fish, name: 'Fish', cost: 2, population: 1, stars: 0, tech: 'fishing' },
+  { resource: ResourceType.Starfish, name: 'Harvest Starfish', cost: 0, population: 0, stars: 8, tech: 'navigation' },
+];
+
+/**
+ * Get the harvest definition for a resource, or undefined if the resource
+ * cannot be harvested directly.
+ */
+export function getHarvestDefinition(resource: ResourceType): HarvestDefinition | undefined {
+  return HARVEST_DEFINITIONS.find(h => h.resource === resource);
+}
+
+/**
+ * Check if the player in `ctx` can harvest the resource on `tile`, ignoring cost.
+ * Requires a harvestable resource, the unlocking tech, no building on the
+ * tile and the player's own city territory.
+ */
+export function canHarvest(tile: Tile, ctx: BuildContext): boolean {
+  if (tile.resource === undefined || tile.building !== undefined) return false;
+
+  const def = getHarvestDefinition(tile.resource);
+  if (def === undefined) return false;
+  if (!ctx.techs.hasResearched(def.tech)) return false;
+
+  return ctx.city !== undefined && ctx.city.owner === ctx.tribe;
+}
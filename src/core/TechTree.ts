@@ -23,7 +23,7 @@ const TECH_TREE: readonly TechDefinition[] = [
   { id: 'forestry', name: 'Forestry', tier: 2, prerequisite: 'hunting', unlocks: [{ kind: 'building', buildingType: 'lumberHut' as BuildingType }, { kind: 'action', action: 'Clear Forest (+1 star)' }] },
   { id: 'farming', name: 'Farming', tier: 2, prerequisite: 'organization', unlocks: [{ kind: 'building', buildingType: 'farm' as BuildingType }] },
   { id: 'strategy', name: 'Strategy', tier: 2, prerequisite: 'organization', unlocks: [{ kind: 'unit', unitType: 'defender' as UnitType }, { kind: 'ability', ability: 'Peace Treaty' }] },
-  { id: 'roads', name: 'Roads', tier: 2, prerequisite: 'riding', unlocks: [{ kind: 'building', buildingType: 'road' as BuildingType }, { kind: 'ability', ability: 'City connections' }] },
+  { id: 'roads', name: 'Roads', tier: 2, prerequisite: 'riding', unlocks: [{ kind: 'building', buildingType: 'road' as BuildingType }, { kind: 'building', buildingType: 'bridge' as BuildingType }, { kind: 'ability', ability: 'City connections' }] },
   { id: 'freeSpirit', name: 'Free Spirit', tier: 2, prerequisite: 'riding', unlocks: [{ kind: 'building', buildingType: 'temple' as BuildingType }, { kind: 'action', action: 'Disband unit (refund half cost)' }] },
   { id: 'sailing', name: 'Sailing', tier: 2, prerequisite: 'fishing', unlocks: [{ kind: 'unit', unitType: 'scout' as UnitType }, { kind: 'ability', ability: 'Ocean movement' }] },
   { id: 'ramming', name: 'Ramming', tier: 2, prerequisite: 'fishing', unlocks: [{ kind: 'unit', unitType: 'rammer' as UnitType }] },
@@ -0,0 +1,48 @@
+/**
+ * Terrain transformation actions for PolyClone2.
+ * Pure TypeScript — no browser or rendering dependencies.
+ *
+ * Values match docs/design/game-mechanics.md (Technology).
+ */
+
+import { ResourceType, TerrainActionDefinition, TerrainActionKind, Tile, TileType } from './types.js';
+import { BuildContext } from './Buildings.js';
+
+/** Static terrain action definitions. */
+const TERRAIN_ACTION_DEFINITIONS: readonly TerrainActionDefinition[] = [
+  { kind: 'clearForest', name: 'Clear Forest', cost: 0, stars: 1, from: TileType.Forest, to: TileType.Field, tech: 'forestry' },
+  { kind: 'burnForest', name: 'Burn Forest', cost: 5, stars: 0, from: TileType.Forest, to: TileType.Field, resource: ResourceType.Crop, tech: 'construction' },
+  { kind: 'growForest', name: 'Grow Forest', cost: 5, stars: 0, from: TileType.Field, to: TileType.Forest, tech: 'spiritualism' },
+];
+
+/**
+ * Get the static definition for a terrain action.
+ */
+export function getTerrainActionDefinition(kind: TerrainActionKind): TerrainActionDefinition {
+  const def = TERRAIN_ACTION_DEFINITIONS.find(d => d.kind === kind);
+  if (!def) throw new Error(`Unknown terrain action: ${kind}`);
+  return def;
+}
+
+/**
+ * Get all terrain action definitions.
+ */
+export function getAllTerrainActions(): readonly TerrainActionDefinition[] {
+  return TERRAIN_ACTION_DEFINITIONS;
+}
+
+/**
+ * Check if the player in `ctx` can perform `kind` on `tile`, ignoring cost.
+ * Requires the unlocking tech, matching terrain with no building on it, and
+ * a non-city tile in the player's own territory. Grow Forest also needs the
+ * field to be free of resources.
+ */
+export function canPerformTerrainAction(tile: Tile, kind: TerrainActionKind, ctx: BuildContext): boolean {
+  const def = getTerrainActionDefinition(kind);
+  if (tile.type !== def.from || tile.building !== undefined) return false;
+  if (kind === 'growForest' && tile.resource !== undefined) return false;
+  if (!ctx.techs.hasResearched(def.tech)) return false;
+
+  if (ctx.city === undefined || ctx.city.owner !== ctx.tribe) return false;
+  return ctx.city.position.x !== tile.x || ctx.city.position.y !== tile.y;
+}
@@ -0,0 +1,47 @@
+/**
+ * Per-turn unit action economy for PolyClone2.
+ * Pure TypeScript — no browser or rendering dependencies.
+ *
+ * Every unit starts its turn Ready and gets one move then one attack:
+ *   - Escape:  may move after attacking (otherwise attacking ends the turn)
+ *   - Persist: may attack again after a kill, but not move
+ *
+ * See docs/design/game-mechanics.md (Unit Skills).
+ */
+
+import { UnitActionState, UnitInstance, UnitSkill } from './types.js';
+
+/** Check if a unit may still move this turn. */
+export function canUnitMove(unit: UnitInstance): boolean {
+  return unit.actionState === UnitActionState.Ready || unit.actionState === UnitActionState.CanMove;
+}
+
+/** Check if a unit may still attack this turn. */
+export function canUnitAttack(unit: UnitInstance): boolean {
+  return unit.actionState === UnitActionState.Ready || unit.actionState === UnitActionState.CanAttack;
+}
+
+/** Check if a unit has already moved or attacked this turn. */
+export function hasUnitActed(unit: UnitInstance): boolean {
+  return unit.actionState !== UnitActionState.Ready;
+}
+
+/**
+ * The action state after a unit moves: the attack is still available,
+ * unless the unit already used it (an Escape unit moving after attacking).
+ */
+export function getStateAfterMove(unit: UnitInstance): UnitActionState {
+  return unit.actionState === UnitActionState.Ready ? UnitActionState.CanAttack : UnitActionState.Done;
+}
+
+/** The action state after a unit attacks, given whether the attack killed its target. */
+export function getStateAfterAttack(unit: UnitInstance, killedTarget: boolean): UnitActionState {
+  if (killedTarget && unit.skills.includes(UnitSkill.Persist)) {
+    return UnitActionState.CanAttack;
+  }
+  if (unit.skills.includes(UnitSkill.Escape)) {
+    // Escape keeps the move: Ready -> CanMove, and a move-attack may move again
+    return UnitActionState.CanMove;
+  }
+  return UnitActionState.Done;
+}
@@ -3,7 +3,7 @@
  * Pure TypeScript -- no browser or rendering dependencies.
  */
 
-import { UnitType, UnitSkill, UnitInstance, UnitStats } from './types.js';
+import { UnitType, UnitSkill, UnitInstance, UnitStats, UnitActionState } from './types.js';
 
 /**
  * Hardcoded base stats for each unit type.
@@ -182,9 +182,67 @@ export function createUnit(
     range: stats.range,
     kills: 0,
     isVeteran: false,
-    hasMoved: false,
-    hasAttacked: false,
-    isHidden: false,
+    actionState: UnitActionState.Ready,
+    isHidden: stats.skills.includes(UnitSkill.Hide),
     skills: stats.skills,
   };
 }
+
+/**
+ * Returns true for naval units (those with the Water skill).
+ */
+export function isNavalUnit(unit: UnitInstance): boolean {
+  return unit.skills.includes(UnitSkill.Water);
+}
+
+/**
+ * Puts a land unit aboard a vessel (a Raft by default) at (x, y).
+ * The vessel keeps the unit's id, owner, action state and kill record, and
+ * takes its HP from the carried unit (naval stats have `hp: null`).
+ */
+export function embarkUnit(
+  unit: UnitInstance,
+  x: number,
+  y: number,
+  vesselType: UnitType = UnitType.Raft,
+): UnitInstance {
+  const stats = UNIT_BASE_STATS[vesselType];
+  const carried = unit.carriedUnit ?? unit;
+
+  return {
+    ...unit,
+    type: vesselType,
+    x,
+    y,
+    atk: stats.atk,
+    def: stats.def,
+    movement: stats.movement,
+    range: stats.range,
+    skills: stats.skills,
+    carriedUnit: carried,
+  };
+}
+
+/**
+ * Lands the unit carried by a vessel at (x, y), restoring its own stats.
+ * HP, kills, action state, owner, stealth and home city come from the vessel.
+ * Returns undefined if the vessel carries nothing.
+ */
+export function disembarkUnit(vessel: UnitInstance, x: number, y: number): UnitInstance | undefined {
+  const carried = vessel.carriedUnit;
+  if (carried === undefined) return undefined;
+
+  return {
+    ...carried,
+    x,
+    y,
+    owner: vessel.owner,
+    isHidden: vessel.isHidden,
+    currentHp: vessel.currentHp,
+    maxHp: vessel.maxHp,
+    kills: vessel.kills,
+    isVeteran: vessel.isVeteran,
+    actionState: vessel.actionState,
+    homeCity: vessel.homeCity,
+  };
+}
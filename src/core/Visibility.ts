@@ -0,0 +1,92 @@
+/**
+ * Fog of war for PolyClone2.
+ * Pure TypeScript — no browser or rendering dependencies.
+ *
+ * Tracks which tiles each player has explored and can currently see.
+ * Vision ranges follow docs/design/game-mechanics.md §10:
+ *   Standard unit    : 1 tile (3x3 area)
+ *   Unit on mountain : 2 tiles
+ *   Scout skill      : 2 tiles (5x5 area)
+ *   City             : all tiles within its borders
+ */
+
+import { TileType, TileVisibility, UnitInstance, UnitSkill } from './types.js';
+
+/** Vision range of a standard unit. */
+const DEFAULT_VISION = 1;
+
+/** Vision range of a unit standing on a mountain or with the Scout skill. */
+const EXTENDED_VISION = 2;
+
+/**
+ * Get the vision range of a unit standing on the given terrain.
+ */
+export function getVisionRange(unit: UnitInstance, terrain: TileType | undefined): number {
+  if (unit.skills.includes(UnitSkill.Scout)) return EXTENDED_VISION;
+  if (terrain === TileType.Mountain) return EXTENDED_VISION;
+  return DEFAULT_VISION;
+}
+
+/**
+ * Visibility grid for a single player.
+ *
+ * Tiles start unexplored. Revealing a tile makes it visible; when vision
+ * is recomputed, previously visible tiles drop back to explored.
+ */
+export class PlayerVisibility {
+  readonly width: number;
+  readonly height: number;
+
+  /** Row-major grid: grid[y * width + x]. */
+  private readonly grid: TileVisibility[];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.grid = new Array(width * height).fill(TileVisibility.Unexplored);
+  }
+
+  /** Get the visibility of a tile. Out-of-bounds tiles are unexplored. */
+  get(x: number, y: number): TileVisibility {
+    if (!this.isInBounds(x, y)) return TileVisibility.Unexplored;
+    return this.grid[y * this.width + x];
+  }
+
+  /** Check if a tile is currently in vision. */
+  isVisible(x: number, y: number): boolean {
+    return this.get(x, y) === TileVisibility.Visible;
+  }
+
+  /** Check if a tile has ever been seen (visible or explored). */
+  isExplored(x: number, y: number): boolean {
+    return this.get(x, y) !== TileVisibility.Unexplored;
+  }
+
+  /** Mark a tile as currently visible. No-op if out of bounds. */
+  reveal(x: number, y: number): void {
+    if (!this.isInBounds(x, y)) return;
+    this.grid[y * this.width + x] = TileVisibility.Visible;
+  }
+
+  /** Mark a tile as explored without putting it in vision. No-op if already seen. */
+  explore(x: number, y: number): void {
+    if (!this.isInBounds(x, y)) return;
+    const idx = y * this.width + x;
+    if (this.grid[idx] === TileVisibility.Unexplored) {
+      this.grid[idx] = TileVisibility.Explored;
+    }
+  }
+
+  /** Demote every visible tile to explored, ready for a fresh vision pass. */
+  clearVision(): void {
+    for (let i = 0; i < this.grid.length; i++) {
+      if (this.grid[i] === TileVisibility.Visible) {
+        this.grid[i] = TileVisibility.Explored;
+      }
+    }
+  }
+
+  private isInBounds(x: number, y: number): boolean {
+    return x >= 0 && x < this.width && y >= 0 && y < this.height;
+  }
+}
@@ -47,6 +47,13 @@ export interface Tile {
   readonly owner?: TribeId;
 }
 
+/** Fog-of-war state of a tile from one player's point of view. */
+export enum TileVisibility {
+  Unexplored = 'unexplored',
+  Explored = 'explored',   // Seen before, not currently in vision
+  Visible = 'visible',
+}
+
 // ---------------------------------------------------------------------------
 // Units
 // ---------------------------------------------------------------------------
@@ -94,6 +101,17 @@ export enum UnitSkill {
   Water = 'water',
 }
 
+/**
+ * What a unit may still do this turn. Moving and attacking advance the
+ * state according to the unit's Dash, Escape and Persist skills.
+ */
+export enum UnitActionState {
+  Ready = 'ready',          // May move and attack
+  CanAttack = 'canAttack',  // Has moved (Dash) or killed (Persist); may still attack
+  CanMove = 'canMove',      // Has attacked (Escape); may still move
+  Done = 'done',            // No actions left this turn
+}
+
 /** Base stats for a unit type (from data/units.json). */
 export interface UnitStats {
   readonly cost: number | null;       // Stars to train; null = not trainable (Giant, naval upgrades)
@@ -129,11 +147,11 @@ export interface UnitInstance {
   readonly range: number;
   readonly kills: number;
   readonly isVeteran: boolean;
-  readonly hasMoved: boolean;
-  readonly hasAttacked: boolean;
+  readonly actionState: UnitActionState;
   readonly isHidden: boolean;
   readonly skills: readonly UnitSkill[];
   readonly carriedUnit?: UnitInstance;  // Land unit inside a naval Carry unit
+  readonly homeCity?: Coord;            // City supporting this unit; none = free
 }
 
 // ---------------------------------------------------------------------------
@@ -257,6 +275,31 @@ export interface BuildingDefinition {
   readonly tech: TechId;
 }
 
+/** Static definition of a resource harvest action (Hunt, Fish, ...). */
+export interface HarvestDefinition {
+  readonly resource: ResourceType;
+  readonly name: string;
+  readonly cost: number;
+  readonly population: number;
+  readonly stars: number;  // Immediate star gain
+  readonly tech: TechId;
+}
+
+/** Terrain transformation actions unlocked by techs. */
+export type TerrainActionKind = 'clearForest' | 'burnForest' | 'growForest';
+
+/** Static definition of a terrain transformation action. */
+export interface TerrainActionDefinition {
+  readonly kind: TerrainActionKind;
+  readonly name: string;
+  readonly cost: number;
+  readonly stars: number;  // Immediate star gain
+  readonly from: TileType;
+  readonly to: TileType;
+  readonly resource?: ResourceType;  // Resource left on the tile afterwards
+  readonly tech: TechId;
+}
+
 // ---------------------------------------------------------------------------
 // City System
 // ---------------------------------------------------------------------------
@@ -347,4 +390,5 @@ export interface GameConfig {
   readonly difficulty: Difficulty;
   readonly winCondition: WinCondition;
   readonly turnLimit: number | null;   // null = no limit (domination)
+  readonly autoRecover?: boolean;      // idle units recover at turn start
 }
@@ -0,0 +1,61 @@
+/**
+ * Renders territory borders as isometric diamonds using PixiJS 8 Graphics.
+ *
+ *   - Owned tiles get a light tint in their tribe's color
+ *   - Diamond edges facing a tile with a different owner (or the map edge)
+ *     are outlined in the tribe's color
+ *   - Unclaimed tiles get no border graphic at all
+ */
+
+import { Graphics } from 'pixi.js';
+import { GameMap } from '../core/GameMap.js';
+import { gridToIso, getDiamondVertices } from './CoordinateUtils.js';
+import { TRIBE_COLORS } from './constants.js';
+
+const TINT_ALPHA = 0.18;
+const LINE_WIDTH = 2;
+const LINE_ALPHA = 0.9;
+
+/**
+ * Grid offset of the neighbour sharing each diamond edge, in
+ * [top-right, bottom-right, bottom-left, top-left] order.
+ */
+const EDGE_NEIGHBORS: readonly { dx: number; dy: number }[] = [
+  { dx: 0, dy: -1 },
+  { dx: 1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: -1, dy: 0 },
+];
+
+/**
+ * Creates the border graphic for the tile at (x, y),
+ * or null if the tile is unclaimed.
+ */
+export function createBorderGraphic(map: GameMap, x: number, y: number): Graphics | null {
+  const owner = map.getTile(x, y)?.owner;
+  if (owner === undefined) return null;
+
+  const color = TRIBE_COLORS[owner];
+  const g = new Graphics();
+  const { px, py } = gridToIso(x, y, map.height);
+  const vertices = getDiamondVertices(px, py);
+  const [top, right, bottom, left] = vertices;
+
+  g.moveTo(top.x, top.y)
+    .lineTo(right.x, right.y)
+    .lineTo(bottom.x, bottom.y)
+    .lineTo(left.x, left.y)
+    .closePath()
+    .fill({ color, alpha: TINT_ALPHA });
+
+  EDGE_NEIGHBORS.forEach(({ dx, dy }, i) => {
+    if (map.getTile(x + dx, y + dy)?.owner === owner) return;
+    const from = vertices[i];
+    const to = vertices[(i + 1) % vertices.length];
+    g.moveTo(from.x, from.y)
+      .lineTo(to.x, to.y)
+      .stroke({ width: LINE_WIDTH, color, alpha: LINE_ALPHA });
+  });
+
+  return g;
+}
@@ -0,0 +1,72 @@
+/**
+ * Renders the fog of war overlay as isometric diamonds using PixiJS 8 Graphics.
+ *
+ *   - Unexplored tiles are covered by an opaque cloud diamond
+ *   - Explored tiles out of vision are dimmed with a translucent shade
+ *   - Visible tiles get no fog graphic at all
+ */
+
+import { Graphics } from 'pixi.js';
+import { TileVisibility } from '../core/types.js';
+import {
+  TILE_WIDTH,
+  TILE_HEIGHT,
+  TILE_BORDER,
+  gridToIso,
+  getDiamondVertices,
+} from './CoordinateUtils.js';
+
+/** Cloud color for unexplored tiles. */
+const CLOUD_COLOR = 0xc9d1dc;
+const CLOUD_PUFF_COLOR = 0xe4e9ef;
+
+/** Shade for explored tiles that are out of sight. */
+const SHADE_COLOR = 0x000000;
+const SHADE_ALPHA = 0.45;
+
+/**
+ * Creates the fog graphic for a tile in the given visibility state,
+ * or null if the tile is visible and needs no fog.
+ */
+export function createFogGraphic(
+  x: number,
+  y: number,
+  visibility: TileVisibility,
+  mapHeight: number,
+): Graphics | null {
+  if (visibility === TileVisibility.Visible) return null;
+
+  const g = new Graphics();
+  const { px, py } = gridToIso(x, y, mapHeight);
+  const [top, right, bottom, left] = getDiamondVertices(px, py);
+
+  g.moveTo(top.x, top.y)
+    .lineTo(right.x, right.y)
+    .lineTo(bottom.x, bottom.y)
+    .lineTo(left.x, left.y)
+    .closePath();
+
+  if (visibility === TileVisibility.Explored) {
+    g.fill({ color: SHADE_COLOR, alpha: SHADE_ALPHA });
+    return g;
+  }
+
+  // Stroke in the cloud color so the tile border underneath is covered too
+  g.fill({ color: CLOUD_COLOR })
+    .stroke({ width: TILE_BORDER, color: CLOUD_COLOR });
+  drawCloudPuffs(g, px, py);
+  return g;
+}
+
+/** Unexplored: a few lighter puffs so the fog reads as cloud, not a hole. */
+function drawCloudPuffs(g: Graphics, px: number, py: number): void {
+  const cx = px + TILE_WIDTH / 2;
+  const cy = py + TILE_HEIGHT / 2;
+
+  g.ellipse(cx - 9, cy + 1, 9, 5)
+    .fill({ color: CLOUD_PUFF_COLOR });
+  g.ellipse(cx + 3, cy - 3, 11, 6)
+    .fill({ color: CLOUD_PUFF_COLOR });
+  g.ellipse(cx + 10, cy + 3, 7, 4)
+    .fill({ color: CLOUD_PUFF_COLOR });
+}
@@ -2,19 +2,25 @@
  * Main renderer for the PolyClone2 game map.
  *
  * Takes a PixiJS Application and a GameMap, creates Containers for
- * tiles, overlays, and units, and provides lifecycle methods.
+ * tiles, territory borders, cities, fog, overlays, and units, and provides
+ * lifecycle methods.
  */
 
 import { Application, Container, Graphics, Text, TextStyle } from 'pixi.js';
 import { GameMap } from '../core/GameMap.js';
-import { CityInstance, Coord, UnitInstance } from '../core/types.js';
+import { PlayerVisibility } from '../core/Visibility.js';
+import { CityConnection } from '../core/Connections.js';
+import { CityInstance, Coord, Tile, TileVisibility, TribeId, UnitInstance } from '../core/types.js';
 import { createTileGraphic } from './TileRenderer.js';
 import { renderUnitsToContainer } from './UnitRenderer.js';
+import { createFogGraphic } from './FogRenderer.js';
+import { createBorderGraphic } from './BorderRenderer.js';
 import {
   renderMovementOverlay,
   renderSelectionHighlight,
 } from './OverlayRenderer.js';
-import { isoToGrid, gridToIso, TILE_WIDTH, TILE_HEIGHT } from './CoordinateUtils.js';
+import { isoToGrid, gridToIso, gridToIsoCenter, TILE_WIDTH, TILE_HEIGHT } from './CoordinateUtils.js';
+import { TRIBE_COLORS } from './constants.js';
 
 export class GameRenderer {
   private readonly app: Application;
@@ -26,31 +32,61 @@ export class GameRenderer {
   /** Layer for tile graphics. */
   private readonly tileLayer: Container;
 
+  /** Layer for territory borders (above tiles, below cities). */
+  private readonly borderLayer: Container;
+
+  /** Layer for city connection routes (above borders, below cities). */
+  private readonly connectionLayer: Container;
+
   /** Layer for city graphics (between tiles and overlays). */
   private readonly cityLayer: Container;
 
+  /** Layer for fog of war (above tiles and cities, below overlays). */
+  private readonly fogLayer: Container;
+
   /** Layer for overlay graphics (movement range, selection). */
   private readonly overlayLayer: Container;
 
   /** Layer for unit graphics. */
   private readonly unitLayer: Container;
 
-  /** References to individual tile graphics so we can update/destroy them. */
+  /** References to individual tile graphics (row-major) so we can update/destroy them. */
   private tileGraphics: Graphics[] = [];
 
+  /** Tile each graphic was drawn from; tiles are immutable, so a new object means a change. */
+  private tileStates: Tile[] = [];
+
+  /** Border graphic per tile (row-major), null where the tile is unclaimed. */
+  private borderGraphics: (Graphics | null)[] = [];
+
+  /** Owner each border graphic was drawn for, so unchanged territory is skipped. */
+  private borderStates: (TribeId | undefined)[] = [];
+
+  /** Fog graphic per tile (row-major), null where the tile is visible. */
+  private fogGraphics: (Graphics | null)[] = [];
+
+  /** Visibility each fog graphic was drawn for, so unchanged tiles are skipped. */
+  private fogStates: (TileVisibility | null)[] = [];
+
   constructor(app: Application, gameMap: GameMap) {
     this.app = app;
     this.gameMap = gameMap;
 
     this.mapContainer = new Container();
     this.tileLayer = new Container();
+    this.borderLayer = new Container();
+    this.connectionLayer = new Container();
     this.cityLayer = new Container();
+    this.fogLayer = new Container();
     this.overlayLayer = new Container();
     this.unitLayer = new Container();
 
-    // Layer order: tiles -> cities -> overlays -> units
+    // Layer order: tiles -> borders -> connections -> cities -> fog -> overlays -> units
     this.mapContainer.addChild(this.tileLayer);
+    this.mapContainer.addChild(this.borderLayer);
+    this.mapContainer.addChild(this.connectionLayer);
     this.mapContainer.addChild(this.cityLayer);
+    this.mapContainer.addChild(this.fogLayer);
     this.mapContainer.addChild(this.overlayLayer);
     this.mapContainer.addChild(this.unitLayer);
 
@@ -72,8 +108,83 @@ export class GameRenderer {
         const graphic = createTileGraphic(tile, this.gameMap.height);
         this.tileLayer.addChild(graphic);
         this.tileGraphics.push(graphic);
+        this.tileStates.push(tile);
+      }
+    }
+  }
+
+  /**
+   * Redraw the single tile at (x, y) from the current GameMap state,
+   * keeping its place in the draw order.
+   */
+  updateTile(x: number, y: number): void {
+    const tile = this.gameMap.getTile(x, y);
+    const idx = y * this.gameMap.width + x;
+    const old = this.tileGraphics[idx];
+    if (tile === null || old === undefined) return;
+
+    const graphic = createTileGraphic(tile, this.gameMap.height);
+    this.tileLayer.addChildAt(graphic, this.tileLayer.getChildIndex(old));
+    old.destroy();
+    this.tileGraphics[idx] = graphic;
+    this.tileStates[idx] = tile;
+  }
+
+  /**
+   * Redraw only the tiles that changed since they were last drawn
+   * (e.g. after a terrain action), without re-rendering the whole map.
+   */
+  syncTiles(): void {
+    for (let y = 0; y < this.gameMap.height; y++) {
+      for (let x = 0; x < this.gameMap.width; x++) {
+        if (this.tileStates[y * this.gameMap.width + x] !== this.gameMap.getTile(x, y)) {
+          this.updateTile(x, y);
+        }
+      }
+    }
+  }
+
+  /**
+   * Render territory borders from the tile owners in the GameMap.
+   * Only tiles whose owner changed since the last call, plus their edge
+   * neighbours (whose outlines depend on them), are redrawn.
+   */
+  renderBorders(): void {
+    const { width, height } = this.gameMap;
+    const dirty = new Set<number>();
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const idx = y * width + x;
+        const owner = this.gameMap.getTile(x, y)?.owner;
+        if (idx < this.borderStates.length && this.borderStates[idx] === owner) continue;
+
+        this.borderStates[idx] = owner;
+        dirty.add(idx);
+        if (x > 0) dirty.add(idx - 1);
+        if (x < width - 1) dirty.add(idx + 1);
+        if (y > 0) dirty.add(idx - width);
+        if (y < height - 1) dirty.add(idx + width);
       }
     }
+
+    for (const idx of dirty) {
+      this.borderGraphics[idx]?.destroy();
+      const graphic = createBorderGraphic(this.gameMap, idx % width, Math.floor(idx / width));
+      if (graphic !== null) this.borderLayer.addChild(graphic);
+      this.borderGraphics[idx] = graphic;
+    }
+  }
+
+  /**
+   * Render the routes linking connected cities to their capital.
+   */
+  renderConnections(connections: readonly CityConnection[]): void {
+    this.clearConnections();
+    for (const connection of connections) {
+      const graphic = createConnectionGraphic(connection, this.gameMap.height);
+      this.connectionLayer.addChild(graphic);
+    }
   }
 
   /**
@@ -96,6 +207,26 @@ export class GameRenderer {
     this.unitLayer.addChild(container);
   }
 
+  /**
+   * Render the fog of war for one player's visibility grid.
+   * Only tiles whose visibility changed since the last call are redrawn.
+   */
+  renderFog(visibility: PlayerVisibility): void {
+    for (let y = 0; y < this.gameMap.height; y++) {
+      for (let x = 0; x < this.gameMap.width; x++) {
+        const idx = y * this.gameMap.width + x;
+        const state = visibility.get(x, y);
+        if (this.fogStates[idx] === state) continue;
+
+        this.fogGraphics[idx]?.destroy();
+        const graphic = createFogGraphic(x, y, state, this.gameMap.height);
+        if (graphic !== null) this.fogLayer.addChild(graphic);
+        this.fogGraphics[idx] = graphic;
+        this.fogStates[idx] = state;
+      }
+    }
+  }
+
   /**
    * Render the movement range overlay and selection highlight.
    */
@@ -133,9 +264,37 @@ export class GameRenderer {
       g.destroy();
     }
     this.tileGraphics = [];
+    this.tileStates = [];
     this.tileLayer.removeChildren();
   }
 
+  /** Remove all border graphics. */
+  private clearBorders(): void {
+    for (const g of this.borderGraphics) {
+      g?.destroy();
+    }
+    this.borderGraphics = [];
+    this.borderStates = [];
+    this.borderLayer.removeChildren();
+  }
+
+  /** Remove all fog graphics. */
+  private clearFog(): void {
+    for (const g of this.fogGraphics) {
+      g?.destroy();
+    }
+    this.fogGraphics = [];
+    this.fogStates = [];
+    this.fogLayer.removeChildren();
+  }
+
+  /** Remove all connection graphics. */
+  private clearConnections(): void {
+    for (const g of this.connectionLayer.removeChildren()) {
+      g.destroy();
+    }
+  }
+
   /** Remove all city graphics. */
   private clearCities(): void {
     this.cityLayer.removeChildren();
@@ -154,7 +313,10 @@ export class GameRenderer {
   /** Clean up: remove the map container from the stage and destroy it. */
   destroy(): void {
     this.clearTiles();
+    this.clearBorders();
+    this.clearConnections();
     this.clearCities();
+    this.clearFog();
     this.clearOverlay();
     this.clearUnits();
     this.app.stage.removeChild(this.mapContainer);
@@ -166,15 +328,6 @@ export class GameRenderer {
 // City rendering
 // ---------------------------------------------------------------------------
 
-/** Tribe -> fill color for city markers. */
-const TRIBE_COLORS: Record<string, number> = {
-  xinxi: 0xd13440,
-  imperius: 0x3f51b5,
-  bardur: 0x795548,
-  oumaji: 0xffc107,
-  neutral: 0xcccccc,
-};
-
 /** Creates a PixiJS Graphics for a city: a thick colored diamond border around the tile. */
 function createCityGraphic(city: CityInstance, mapHeight: number): Graphics {
   const g = new Graphics();
@@ -227,3 +380,25 @@ function createCityGraphic(city: CityInstance, mapHeight: number): Graphics {
 
   return g;
 }
+
+// ---------------------------------------------------------------------------
+// City connection rendering
+// ---------------------------------------------------------------------------
+
+/** Route line color and width for city connections. */
+const CONNECTION_COLOR = 0xfff3b0;
+const CONNECTION_WIDTH = 3;
+
+/** Creates a PixiJS Graphics for a connection: a line through the centers of its route tiles. */
+function createConnectionGraphic(connection: CityConnection, mapHeight: number): Graphics {
+  const g = new Graphics();
+  const points = connection.route.map(({ x, y }) => gridToIsoCenter(x, y, mapHeight));
+
+  g.moveTo(points[0].cx, points[0].cy);
+  for (const { cx, cy } of points.slice(1)) {
+    g.lineTo(cx, cy);
+  }
+  g.stroke({ width: CONNECTION_WIDTH, color: CONNECTION_COLOR, alpha: 0.7, cap: 'round', join: 'round' });
+
+  return g;
+}
@@ -2,7 +2,8 @@
  * Renders units on the game map as colored circles with type indicators.
  *
  * Player 0 = blue tint, Player 1 = red tint.
- * Selected units get a bright highlight ring.
+ * Selected units get a bright highlight ring; hidden units (only ever
+ * drawn for their owner) are translucent; veterans wear a gold star badge.
  */
 
 import { Container, Graphics, Text, TextStyle } from 'pixi.js';
@@ -25,6 +26,9 @@ const PLAYER_BORDER_COLORS: Record<number, number> = {
 /** Selection highlight ring color. */
 const SELECTION_COLOR = 0xffff00;
 
+/** Veteran badge color. */
+const VETERAN_COLOR = 0xffd700;
+
 /** Map from UnitType to a short label letter. */
 const UNIT_TYPE_LABELS: Partial<Record<UnitType, string>> = {
   [UnitType.Warrior]: 'W',
@@ -59,6 +63,7 @@ export function createUnitGraphic(
   const { cx, cy } = gridToIsoCenter(unit.x, unit.y, mapHeight);
 
   container.position.set(cx, cy);
+  if (unit.isHidden) container.alpha = 0.5;
 
   const fillColor = PLAYER_COLORS[unit.owner] ?? 0x888888;
   const borderColor = PLAYER_BORDER_COLORS[unit.owner] ?? 0x555555;
@@ -90,6 +95,15 @@ export function createUnitGraphic(
   text.anchor.set(0.5, 0.5);
   container.addChild(text);
 
+  // Veteran badge (top-right of the circle)
+  if (unit.isVeteran) {
+    const badge = new Graphics();
+    badge.star(UNIT_RADIUS * 0.75, -UNIT_RADIUS * 0.75, 5, 5, 2.2)
+      .fill({ color: VETERAN_COLOR })
+      .stroke({ width: 1, color: 0x000000, alpha: 0.6 });
+    container.addChild(badge);
+  }
+
   return container;
 }
 
@@ -2,7 +2,7 @@
  * Shared rendering constants for PolyClone2.
  */
 
-import { TileType } from '../core/types.js';
+import { TileType, TribeId } from '../core/types.js';
 
 // Re-export isometric tile dimensions from the single source of truth
 export { TILE_WIDTH, TILE_HEIGHT, TILE_BORDER } from './CoordinateUtils.js';
@@ -27,3 +27,12 @@ export const TERRAIN_BORDER_COLORS: Record<TileType, number> = {
   [TileType.ShallowWater]: 0x3a78b8,
   [TileType.Ocean]:        0x124a90,
 };
+
+/** Tribe colors, matching TribeDefinition.color in /src/assets/data/tribes.json. */
+export const TRIBE_COLORS: Record<TribeId, number> = {
+  xinxi:    0xd13440,
+  imperius: 0x3f51b5,
+  bardur:   0x795548,
+  oumaji:   0xffc107,
+  neutral:  0xcccccc,
+};
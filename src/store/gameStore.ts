@@ -6,19 +6,22 @@
 import { create } from 'zustand';
 import { GameState } from '../core/GameState.js';
 import {
+  BuildingType,
   CityInstance,
   CityLevelRewardOption,
   Coord,
   GameConfig,
   TechId,
+  TerrainActionKind,
   UnitInstance,
   UnitType,
 } from '../core/types.js';
 import { generateMap } from '../core/MapGen.js';
-import { createCity } from '../core/City.js';
+import { createCity, canLevelUp } from '../core/City.js';
 import { createUnit, resetUnitIdCounter } from '../core/UnitFactory.js';
-import { previewCombat, getDefenseBonusForTerrain, getCityDefenseBonus } from '../core/Combat.js';
+import { previewCombat, DefenseBonus, SplashHit } from '../core/Combat.js';
 import { executeAITurn } from '../core/AI.js';
+import { canUnitMove } from '../core/UnitActions.js';
 
 /** Battle preview data shown in UI. */
 export interface BattlePreviewData {
@@ -28,6 +31,8 @@ export interface BattlePreviewData {
   readonly damageToAttacker: number;
   readonly defenderKilled: boolean;
   readonly attackerKilled: boolean;
+  readonly defenseBonus: DefenseBonus;
+  readonly splash: readonly SplashHit[];
 }
 
 /** Pending level-up data. */
@@ -55,6 +60,7 @@ export interface GameStore {
   pendingLevelUp: PendingLevelUp | null;
   battlePreview: BattlePreviewData | null;
   movementRange: Set<string> | null;
+  siegedCities: readonly CityInstance[];
   winner: number;
 
   // --- Actions ---
@@ -71,6 +77,15 @@ export interface GameStore {
   dismissBattlePreview: () => void;
   toggleTechTree: () => void;
   moveSelectedUnit: (toX: number, toY: number) => boolean;
+  upgradeSelectedUnit: (vesselType: UnitType) => void;
+  convertWithSelectedUnit: (targetX: number, targetY: number) => void;
+  healWithSelectedUnit: () => void;
+  recoverSelectedUnit: () => void;
+  promoteSelectedUnit: () => void;
+  captureWithSelectedUnit: () => void;
+  build: (x: number, y: number, type: BuildingType) => void;
+  harvest: (x: number, y: number) => void;
+  terrainAction: (x: number, y: number, kind: TerrainActionKind) => void;
 
   // --- Helpers ---
   refreshSlices: () => void;
@@ -84,6 +99,21 @@ const TRIBE_STARTING_UNIT: Record<string, UnitType> = {
   oumaji: UnitType.Rider,
 };
 
+/**
+ * The next level-up prompt for the current player: the city whose territory
+ * covers (x, y) if its population passed the next level's threshold, else
+ * any other of their cities that did (e.g. a capital gaining a connection,
+ * or a city whose +3 population reward carries it into another level).
+ */
+function findPendingLevelUp(gameState: GameState, x: number, y: number): PendingLevelUp | null {
+  const tribe = gameState.getTribeForPlayer(gameState.getCurrentPlayer());
+  const local = gameState.getTerritoryCityAt(x, y);
+  const city = local && local.owner === tribe && canLevelUp(local)
+    ? local
+    : gameState.getCitiesForPlayer(tribe).find(canLevelUp);
+  return city ? { city } : null;
+}
+
 export const useGameStore = create<GameStore>((set, get) => ({
   // --- Initial state ---
   gamePhase: 'setup',
@@ -99,6 +129,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
   pendingLevelUp: null,
   battlePreview: null,
   movementRange: null,
+  siegedCities: [],
   winner: -1,
 
   initGame: (config: GameConfig, seed?: number) => {
@@ -117,7 +148,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
       const unitType = TRIBE_STARTING_UNIT[tribeId] ?? UnitType.Warrior;
       const unit = createUnit(unitType, i, capitalPos.x, capitalPos.y);
-      gameState.addUnit(unit);
+      gameState.addUnit({ ...unit, homeCity: city.position });
     }
 
     // Place neutral villages
@@ -141,6 +172,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
       pendingLevelUp: null,
       battlePreview: null,
       movementRange: null,
+      siegedCities: [],
       winner: -1,
     });
   },
@@ -151,7 +183,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const unit = gameState.getUnit(unitId);
     if (!unit) return;
 
-    const range = !unit.hasMoved ? gameState.getMovementRange(unitId) : null;
+    const range = canUnitMove(unit) ? gameState.getMovementRange(unitId) : null;
     set({
       selectedUnitId: unitId,
       selectedUnit: unit,
@@ -226,9 +258,10 @@ export const useGameStore = create<GameStore>((set, get) => ({
   chooseLevelUpReward: (reward: CityLevelRewardOption) => {
     const { gameState, pendingLevelUp } = get();
     if (!gameState || !pendingLevelUp) return;
-    const city = pendingLevelUp.city;
-    gameState.levelUpCity(city.position.x, city.position.y, reward);
-    set({ pendingLevelUp: null });
+    const { x, y } = pendingLevelUp.city.position;
+    gameState.levelUpCity(x, y, reward);
+    // Surplus population may carry the city (or another) into the next level
+    set({ pendingLevelUp: findPendingLevelUp(gameState, x, y) });
     get().refreshSlices();
   },
 
@@ -240,9 +273,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
     get().refreshSlices();
 
     // Re-read the attacker to see if still alive, update selection
+    // (an Escape unit may still move after attacking)
     const updatedAttacker = gameState.getUnit(selectedUnitId);
     if (updatedAttacker) {
-      set({ selectedUnit: updatedAttacker });
+      set({
+        selectedUnit: updatedAttacker,
+        movementRange: canUnitMove(updatedAttacker) ? gameState.getMovementRange(selectedUnitId) : null,
+      });
     } else {
       set({ selectedUnitId: null, selectedUnit: null, movementRange: null });
     }
@@ -254,20 +291,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
     const attacker = gameState.getUnit(selectedUnitId);
     if (!attacker) return;
-    const defender = gameState.getUnitAt(targetX, targetY);
+    const defender = gameState.getVisibleUnitAt(targetX, targetY, attacker.owner);
     if (!defender || defender.owner === attacker.owner) return;
 
     const dist = Math.max(Math.abs(attacker.x - targetX), Math.abs(attacker.y - targetY));
     if (dist > attacker.range) return;
 
-    const tile = gameState.map.getTile(targetX, targetY);
-    let defenseBonus = tile ? getDefenseBonusForTerrain(tile.type) : 1.0;
-    const defenderCity = gameState.getCityAt(targetX, targetY);
-    if (defenderCity) {
-      defenseBonus = getCityDefenseBonus(defenderCity.hasWall);
-    }
-
-    const preview = previewCombat(attacker, defender, defenseBonus, dist);
+    const preview = previewCombat(attacker, defender, gameState.getDefenseBonus(defender), dist);
     const defenderKilled = defender.currentHp - preview.damageToDefender <= 0;
     const attackerKilled = attacker.currentHp - preview.damageToAttacker <= 0;
 
@@ -279,6 +309,8 @@ export const useGameStore = create<GameStore>((set, get) => ({
         damageToAttacker: preview.damageToAttacker,
         defenderKilled,
         attackerKilled,
+        defenseBonus: preview.defenseBonus,
+        splash: gameState.previewSplash(attacker, targetX, targetY),
       },
     });
   },
@@ -307,6 +339,98 @@ export const useGameStore = create<GameStore>((set, get) => ({
     return success;
   },
 
+  upgradeSelectedUnit: (vesselType: UnitType) => {
+    const { gameState, selectedUnitId } = get();
+    if (!gameState || !selectedUnitId) return;
+
+    const upgraded = gameState.upgradeNavalUnit(selectedUnitId, vesselType);
+    if (!upgraded) return;
+    set({
+      selectedUnit: upgraded,
+      movementRange: canUnitMove(upgraded) ? gameState.getMovementRange(selectedUnitId) : null,
+    });
+    get().refreshSlices();
+  },
+
+  convertWithSelectedUnit: (targetX: number, targetY: number) => {
+    const { gameState, selectedUnitId } = get();
+    if (!gameState || !selectedUnitId) return;
+
+    if (!gameState.convertUnit(selectedUnitId, targetX, targetY)) return;
+    set({ selectedUnit: gameState.getUnit(selectedUnitId) ?? null, movementRange: null });
+    get().refreshSlices();
+  },
+
+  healWithSelectedUnit: () => {
+    const { gameState, selectedUnitId } = get();
+    if (!gameState || !selectedUnitId) return;
+
+    if (!gameState.healAdjacent(selectedUnitId)) return;
+    set({ selectedUnit: gameState.getUnit(selectedUnitId) ?? null, movementRange: null });
+    get().refreshSlices();
+  },
+
+  recoverSelectedUnit: () => {
+    const { gameState, selectedUnitId } = get();
+    if (!gameState || !selectedUnitId) return;
+
+    const recovered = gameState.recoverUnit(selectedUnitId);
+    if (!recovered) return;
+    set({ selectedUnit: recovered, movementRange: null });
+    get().refreshSlices();
+  },
+
+  promoteSelectedUnit: () => {
+    const { gameState, selectedUnitId } = get();
+    if (!gameState || !selectedUnitId) return;
+
+    const promoted = gameState.promoteUnit(selectedUnitId);
+    if (!promoted) return;
+    set({ selectedUnit: promoted });
+    get().refreshSlices();
+  },
+
+  captureWithSelectedUnit: () => {
+    const { gameState, selectedUnitId } = get();
+    if (!gameState || !selectedUnitId) return;
+
+    const captured = gameState.captureCity(selectedUnitId);
+    if (!captured) return;
+    set({ selectedUnit: gameState.getUnit(selectedUnitId) ?? null, movementRange: null });
+
+    // A newly connected city can carry the capital into its next level
+    const pending = findPendingLevelUp(gameState, captured.position.x, captured.position.y);
+    if (pending) set({ pendingLevelUp: pending });
+    get().refreshSlices();
+  },
+
+  build: (x: number, y: number, type: BuildingType) => {
+    const { gameState } = get();
+    if (!gameState) return;
+    if (gameState.build(x, y, type)) {
+      const pending = findPendingLevelUp(gameState, x, y);
+      if (pending) set({ pendingLevelUp: pending });
+    }
+    get().refreshSlices();
+  },
+
+  harvest: (x: number, y: number) => {
+    const { gameState } = get();
+    if (!gameState) return;
+    if (gameState.harvest(x, y)) {
+      const pending = findPendingLevelUp(gameState, x, y);
+      if (pending) set({ pendingLevelUp: pending });
+    }
+    get().refreshSlices();
+  },
+
+  terrainAction: (x: number, y: number, kind: TerrainActionKind) => {
+    const { gameState } = get();
+    if (!gameState) return;
+    gameState.terrainAction(x, y, kind);
+    get().refreshSlices();
+  },
+
   refreshSlices: () => {
     const { gameState } = get();
     if (!gameState) return;
@@ -316,6 +440,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
       income: gameState.getIncome(player),
       turnNumber: gameState.getTurnNumber(),
       currentPlayer: player,
+      siegedCities: gameState.getSiegedCities(player),
       winner: gameState.getWinner(),
     });
   },
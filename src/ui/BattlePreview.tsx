@@ -2,7 +2,8 @@
  * BattlePreview — Centered overlay for combat confirmation.
  *
  * Appears when battlePreview is not null. Shows attacker and defender
- * stats, predicted damage, kill indicators, and confirm/cancel buttons.
+ * stats, the defender's bonus and why it applies, predicted damage, kill
+ * indicators, any splash victims, and confirm/cancel buttons.
  */
 
 import { useCallback } from 'preact/hooks';
@@ -43,8 +44,16 @@ export function BattlePreview() {
 
   if (!battlePreview) return null;
 
-  const { attacker, defender, damageToDefender, damageToAttacker, defenderKilled, attackerKilled } =
-    battlePreview;
+  const {
+    attacker,
+    defender,
+    damageToDefender,
+    damageToAttacker,
+    defenderKilled,
+    attackerKilled,
+    defenseBonus,
+    splash,
+  } = battlePreview;
 
   const attackerHpAfter = Math.max(0, attacker.currentHp - damageToAttacker);
   const defenderHpAfter = Math.max(0, defender.currentHp - damageToDefender);
@@ -321,6 +330,18 @@ export function BattlePreview() {
               <span>DEF {defender.def}</span>
             </div>
 
+            {/* Defense bonus and its source */}
+            <div
+              style={{
+                marginTop: '6px',
+                fontSize: '11px',
+                color: defenseBonus.multiplier > 1 ? '#80cbc4' : 'rgba(255, 255, 255, 0.45)',
+              }}
+              title={defenseBonus.reason}
+            >
+              {'\u{1F6E1}'} x{defenseBonus.multiplier} {defenseBonus.reason}
+            </div>
+
             {/* Kill indicator */}
             {defenderKilled && (
               <div
@@ -381,6 +402,26 @@ export function BattlePreview() {
           </div>
         </div>
 
+        {/* Splash victims */}
+        {splash.length > 0 && (
+          <div style={{ marginTop: '-6px', marginBottom: '16px', fontSize: '12px' }}>
+            <div style={{ color: 'rgba(255, 255, 255, 0.5)', fontSize: '11px', marginBottom: '4px' }}>
+              Splash
+            </div>
+            {splash.map(hit => (
+              <div
+                key={hit.unit.id}
+                style={{ display: 'flex', justifyContent: 'space-between', color: 'rgba(255, 255, 255, 0.8)' }}
+              >
+                <span>{UNIT_DISPLAY_NAMES[hit.unit.type]} ({hit.unit.x},{hit.unit.y})</span>
+                <span style={{ fontWeight: 700, color: hit.killed ? '#ff5252' : '#ff8a80' }}>
+                  {hit.damage} dmg{hit.killed ? ' \u2620' : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Action buttons */}
         <div
           style={{
@@ -2,15 +2,20 @@
  * CityPanel — Bottom sheet UI for city management.
  *
  * Appears when a city is selected (selectedCityPos is not null).
- * Shows city info (name, level, population, income) and a train tab
- * listing available unit types the player can recruit.
+ * Shows city info (name, level, population, income, supported units), a train tab
+ * listing available unit types the player can recruit, and a build tab
+ * listing resources to harvest, terrain actions and buildings that can
+ * be placed inside the city's territory.
  */
 
 import { useCallback, useMemo } from 'preact/hooks';
 import { useGameStore } from '../store/gameStore.js';
-import { UnitType } from '../core/types.js';
+import { BuildingType, HarvestDefinition, TerrainActionKind, UnitType } from '../core/types.js';
 import { getUnitBaseStats } from '../core/UnitFactory.js';
-import { getPopToNextLevel, calculateCityIncome } from '../core/City.js';
+import { getPopToNextLevel, getCityTerritory, getUnitCapacity } from '../core/City.js';
+import { getBuildingDefinition } from '../core/Buildings.js';
+import { getHarvestDefinition } from '../core/Harvest.js';
+import { getTerrainActionDefinition } from '../core/TerrainActions.js';
 
 /** Display names for unit types. */
 const UNIT_DISPLAY_NAMES: Record<UnitType, string> = {
@@ -50,6 +55,9 @@ export function CityPanel() {
   const currentPlayer = useGameStore(s => s.currentPlayer);
   const deselect = useGameStore(s => s.deselect);
   const trainUnit = useGameStore(s => s.trainUnit);
+  const build = useGameStore(s => s.build);
+  const harvest = useGameStore(s => s.harvest);
+  const terrainAction = useGameStore(s => s.terrainAction);
 
   const city = useMemo(() => {
     if (!gameState || !selectedCityPos) return null;
@@ -66,6 +74,45 @@ export function CityPanel() {
     return gameState.getUnitAt(selectedCityPos.x, selectedCityPos.y) !== undefined;
   }, [gameState, selectedCityPos]);
 
+  // Every (tile, building) pair that can be built in this city's territory.
+  // Depends on `stars` so the list refreshes after each store action.
+  const buildOptions = useMemo(() => {
+    if (!gameState || !city) return [];
+    const options: { x: number; y: number; type: BuildingType }[] = [];
+    for (const { x, y } of getCityTerritory(city)) {
+      for (const type of gameState.getBuildOptions(x, y)) {
+        options.push({ x, y, type });
+      }
+    }
+    return options;
+  }, [gameState, city, stars]);
+
+  // Resources that can be harvested in this city's territory
+  const harvestOptions = useMemo(() => {
+    if (!gameState || !city) return [];
+    const options: { x: number; y: number; def: HarvestDefinition }[] = [];
+    for (const { x, y } of getCityTerritory(city)) {
+      const resource = gameState.map.getTile(x, y)?.resource;
+      const def = resource === undefined ? undefined : getHarvestDefinition(resource);
+      if (def !== undefined && gameState.canHarvestAt(x, y)) {
+        options.push({ x, y, def });
+      }
+    }
+    return options;
+  }, [gameState, city, stars]);
+
+  // Clear / Burn / Grow Forest actions available in this city's territory
+  const terrainOptions = useMemo(() => {
+    if (!gameState || !city) return [];
+    const options: { x: number; y: number; kind: TerrainActionKind }[] = [];
+    for (const { x, y } of getCityTerritory(city)) {
+      for (const kind of gameState.getTerrainActions(x, y)) {
+        options.push({ x, y, kind });
+      }
+    }
+    return options;
+  }, [gameState, city, stars]);
+
   const handleTrain = useCallback(
     (unitType: UnitType) => {
       trainUnit(unitType);
@@ -81,7 +128,11 @@ export function CityPanel() {
 
   const popNeeded = getPopToNextLevel(city.level);
   const popFraction = popNeeded > 0 ? Math.min(city.population / popNeeded, 1) : 0;
-  const income = calculateCityIncome(city);
+  const income = gameState?.getCityIncome(city) ?? 0;
+  const underSiege = gameState?.isCityUnderSiege(city) ?? false;
+  const unitCount = gameState?.getCityUnits(city).length ?? 0;
+  const unitCapacity = getUnitCapacity(city.level);
+  const atCapacity = unitCount >= unitCapacity;
 
   return (
     <div
@@ -237,6 +288,14 @@ export function CityPanel() {
           <span style={{ fontWeight: 700, color: '#ffd700' }}>
             {'\u2B50'} {income} / turn
           </span>
+          {underSiege && (
+            <span style={{ fontSize: '13px', fontWeight: 600, color: '#ff8a80' }}>
+              {'\u2694'} Under siege
+            </span>
+          )}
+          <span style={{ marginLeft: 'auto', color: atCapacity ? '#ff8a80' : 'rgba(255, 255, 255, 0.7)' }}>
+            units {unitCount}/{unitCapacity}
+          </span>
         </div>
 
         {/* Divider */}
@@ -276,56 +335,16 @@ export function CityPanel() {
             const stats = getUnitBaseStats(unitType);
             const cost = stats.cost ?? 0;
             const canAfford = stars >= cost;
-            const disabled = !canAfford || tileOccupied;
+            const disabled = !canAfford || tileOccupied || atCapacity;
 
             return (
-              <button
+              <OptionButton
                 key={unitType}
-                type="button"
-                onClick={() => {
-                  if (!disabled) handleTrain(unitType);
-                }}
+                label={UNIT_DISPLAY_NAMES[unitType]}
+                cost={cost}
                 disabled={disabled}
-                style={{
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'space-between',
-                  minHeight: '48px',
-                  padding: '10px 12px',
-                  backgroundColor: disabled
-                    ? 'rgba(255, 255, 255, 0.05)'
-                    : 'rgba(255, 255, 255, 0.12)',
-                  border: disabled
-                    ? '1px solid rgba(255, 255, 255, 0.08)'
-                    : '1px solid rgba(255, 255, 255, 0.25)',
-                  borderRadius: '8px',
-                  color: disabled ? 'rgba(255, 255, 255, 0.35)' : '#fff',
-                  cursor: disabled ? 'not-allowed' : 'pointer',
-                  fontSize: '14px',
-                  fontWeight: 600,
-                  fontFamily: 'sans-serif',
-                  textAlign: 'left',
-                  transition: 'background-color 0.15s',
-                }}
-              >
-                <span>{UNIT_DISPLAY_NAMES[unitType]}</span>
-                <span
-                  style={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '3px',
-                    fontSize: '13px',
-                    fontWeight: 700,
-                    color: disabled
-                      ? 'rgba(255, 255, 255, 0.3)'
-                      : '#ffd700',
-                    flexShrink: 0,
-                    marginLeft: '8px',
-                  }}
-                >
-                  {'\u2B50'} {cost}
-                </span>
-              </button>
+                onClick={() => handleTrain(unitType)}
+              />
             );
           })}
         </div>
@@ -343,7 +362,140 @@ export function CityPanel() {
             City tile is occupied by a unit
           </div>
         )}
+
+        {/* Capacity warning */}
+        {atCapacity && (
+          <div
+            style={{
+              marginTop: '10px',
+              fontSize: '13px',
+              color: '#ff8a80',
+              textAlign: 'center',
+            }}
+          >
+            City cannot support more units
+          </div>
+        )}
+
+        {/* Build tab */}
+        {buildOptions.length + harvestOptions.length + terrainOptions.length > 0 && (
+          <>
+            <div
+              style={{
+                fontSize: '15px',
+                fontWeight: 700,
+                margin: '16px 0 10px',
+                color: 'rgba(255, 255, 255, 0.9)',
+              }}
+            >
+              Build
+            </div>
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))',
+                gap: '8px',
+              }}
+            >
+              {harvestOptions.map(({ x, y, def }) => (
+                <OptionButton
+                  key={`${x},${y},${def.resource}`}
+                  label={`${def.name} (${x},${y})`}
+                  cost={def.cost}
+                  disabled={stars < def.cost}
+                  onClick={() => harvest(x, y)}
+                />
+              ))}
+              {terrainOptions.map(({ x, y, kind }) => {
+                const def = getTerrainActionDefinition(kind);
+                return (
+                  <OptionButton
+                    key={`${x},${y},${kind}`}
+                    label={`${def.name} (${x},${y})`}
+                    cost={def.cost}
+                    disabled={stars < def.cost}
+                    onClick={() => terrainAction(x, y, kind)}
+                  />
+                );
+              })}
+              {buildOptions.map(({ x, y, type }) => {
+                const def = getBuildingDefinition(type);
+                return (
+                  <OptionButton
+                    key={`${x},${y},${type}`}
+                    label={`${def.name} (${x},${y})`}
+                    cost={def.cost}
+                    disabled={stars < def.cost}
+                    onClick={() => build(x, y, type)}
+                  />
+                );
+              })}
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
 }
+
+/** A list entry with a name and star cost, used by the train and build tabs. */
+function OptionButton({
+  label,
+  cost,
+  disabled,
+  onClick,
+}: {
+  readonly label: string;
+  readonly cost: number;
+  readonly disabled: boolean;
+  readonly onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => {
+        if (!disabled) onClick();
+      }}
+      disabled={disabled}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        minHeight: '48px',
+        padding: '10px 12px',
+        backgroundColor: disabled
+          ? 'rgba(255, 255, 255, 0.05)'
+          : 'rgba(255, 255, 255, 0.12)',
+        border: disabled
+          ? '1px solid rgba(255, 255, 255, 0.08)'
+          : '1px solid rgba(255, 255, 255, 0.25)',
+        borderRadius: '8px',
+        color: disabled ? 'rgba(255, 255, 255, 0.35)' : '#fff',
+        cursor: disabled ? 'not-allowed' : 'pointer',
+        fontSize: '14px',
+        fontWeight: 600,
+        fontFamily: 'sans-serif',
+        textAlign: 'left',
+        transition: 'background-color 0.15s',
+      }}
+    >
+      <span>{label}</span>
+      <span
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '3px',
+          fontSize: '13px',
+          fontWeight: 700,
+          color: disabled
+            ? 'rgba(255, 255, 255, 0.3)'
+            : '#ffd700',
+          flexShrink: 0,
+          marginLeft: '8px',
+        }}
+      >
+        {'\u2B50'} {cost}
+      </span>
+    </button>
+  );
+}
@@ -19,12 +19,18 @@ const DIFFICULTIES: readonly { value: Difficulty; label: string }[] = [
 
 const OPPONENT_COUNTS = [1, 2, 3] as const;
 
+const AUTO_RECOVER_OPTIONS: readonly { value: boolean; label: string }[] = [
+  { value: false, label: 'Off' },
+  { value: true, label: 'On' },
+];
+
 export function GameSetup() {
   const initGame = useGameStore(s => s.initGame);
 
   const [selectedTribe, setSelectedTribe] = useState<TribeId>('imperius');
   const [difficulty, setDifficulty] = useState<Difficulty>('normal');
   const [opponentCount, setOpponentCount] = useState(1);
+  const [autoRecover, setAutoRecover] = useState(false);
 
   function handleStart() {
     // Build the AI opponent list from tribes the player didn't pick
@@ -44,6 +50,7 @@ export function GameSetup() {
       difficulty,
       winCondition: 'domination',
       turnLimit: null,
+      autoRecover,
     };
 
     initGame(config, Date.now());
@@ -215,6 +222,40 @@ export function GameSetup() {
           </div>
         </section>
 
+        {/* Auto-Recover: idle units heal at the start of their turn */}
+        <section style={{ width: '100%', textAlign: 'center' }}>
+          <h2 style={{ margin: '0 0 12px', fontSize: '16px', fontWeight: 600, opacity: 0.8 }}>
+            Auto-Recover
+          </h2>
+          <div style={{ display: 'flex', justifyContent: 'center', gap: '8px' }}>
+            {AUTO_RECOVER_OPTIONS.map(option => {
+              const isSelected = autoRecover === option.value;
+              return (
+                <button
+                  key={option.label}
+                  onClick={() => setAutoRecover(option.value)}
+                  style={{
+                    minWidth: '64px',
+                    minHeight: '48px',
+                    padding: '8px 16px',
+                    borderRadius: '8px',
+                    border: isSelected ? '2px solid #fff' : '2px solid rgba(255,255,255,0.2)',
+                    background: isSelected ? 'rgba(255,255,255,0.15)' : 'rgba(255,255,255,0.05)',
+                    color: isSelected ? '#fff' : 'rgba(255,255,255,0.6)',
+                    fontSize: '16px',
+                    fontWeight: isSelected ? 700 : 400,
+                    cursor: 'pointer',
+                    fontFamily: 'sans-serif',
+                    transition: 'background 0.15s, border 0.15s',
+                  }}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
         {/* Start Game */}
         <button
           onClick={handleStart}
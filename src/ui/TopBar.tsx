@@ -5,6 +5,7 @@
  *   - Left: Star counter with income ("23 (+8)")
  *   - Center: Turn number with player color dot
  *   - Right: Tech tree button, settings button
+ *   - Below: Siege warning naming the player's cities that produce no income
  *   - Bottom-right: End Turn button
  *
  * Reads directly from the Zustand game store (no props needed).
@@ -22,6 +23,7 @@ export function TopBar() {
   const currentPlayer = useGameStore(s => s.currentPlayer);
   const endTurn = useGameStore(s => s.endTurn);
   const toggleTechTree = useGameStore(s => s.toggleTechTree);
+  const siegedCities = useGameStore(s => s.siegedCities);
 
   const playerColor = PLAYER_COLORS[currentPlayer] ?? '#888';
   const incomeSign = income >= 0 ? '+' : '';
@@ -181,6 +183,28 @@ export function TopBar() {
         </div>
       </div>
 
+      {/* Siege warning (only shown while an enemy occupies one of our cities) */}
+      {siegedCities.length > 0 && (
+        <div
+          role="alert"
+          style={{
+            position: 'absolute',
+            top: '64px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            padding: '6px 12px',
+            fontSize: '13px',
+            fontWeight: 600,
+            color: '#fff',
+            backgroundColor: 'rgba(183,28,28,0.85)',
+            borderRadius: '6px',
+            textShadow: '0 1px 2px rgba(0,0,0,0.5)',
+          }}
+        >
+          {'\u2694'} Under siege: {siegedCities.map(c => c.name).join(', ')} (no income)
+        </div>
+      )}
+
       {/* Bottom-right: End Turn button */}
       <div
         style={{
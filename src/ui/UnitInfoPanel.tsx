@@ -6,12 +6,18 @@
  *   - HP bar (currentHp / maxHp)
  *   - ATK, DEF, Move, Range stats
  *   - Kill count with veteran star indicator
+ *   - Promote button once a unit has earned veteran status
+ *   - Capture button for a unit that started its turn on an enemy city or village
+ *   - Recover button for a wounded unit that has not acted this turn
+ *   - Naval upgrade buttons for a Raft on a friendly port
+ *   - Convert and Heal buttons for a Mind Bender
  *
  * Reads selectedUnit from the Zustand game store; renders nothing when no unit
  * is selected.
  */
 
 import { useGameStore } from '../store/gameStore.js';
+import { getUnitBaseStats } from '../core/UnitFactory.js';
 
 /** Player colors: index 0 = blue (Player 1), index 1 = red (Player 2). */
 const PLAYER_COLORS = ['#4a90d9', '#d94a4a'];
@@ -25,9 +31,40 @@ function formatUnitName(type: string): string {
 
 export function UnitInfoPanel() {
   const selectedUnit = useGameStore(s => s.selectedUnit);
+  const gameState = useGameStore(s => s.gameState);
+  const stars = useGameStore(s => s.stars);
+  const currentPlayer = useGameStore(s => s.currentPlayer);
+  const upgradeSelectedUnit = useGameStore(s => s.upgradeSelectedUnit);
+  const convertWithSelectedUnit = useGameStore(s => s.convertWithSelectedUnit);
+  const healWithSelectedUnit = useGameStore(s => s.healWithSelectedUnit);
+  const recoverSelectedUnit = useGameStore(s => s.recoverSelectedUnit);
+  const promoteSelectedUnit = useGameStore(s => s.promoteSelectedUnit);
+  const captureWithSelectedUnit = useGameStore(s => s.captureWithSelectedUnit);
 
   if (!selectedUnit) return null;
 
+  // Naval upgrades the player has the tech for and can afford right now
+  const upgrades = gameState && selectedUnit.owner === currentPlayer
+    ? gameState.getNavalUpgrades(selectedUnit.id)
+      .map(type => ({ type, cost: getUnitBaseStats(type).cost ?? 0 }))
+      .filter(u => u.cost <= stars)
+    : [];
+
+  // Mind Bender skills
+  const ownTurn = gameState !== null && selectedUnit.owner === currentPlayer;
+  const convertTargets = ownTurn ? gameState.getConvertTargets(selectedUnit.id) : [];
+  const canHeal = ownTurn && gameState.getHealTargets(selectedUnit.id).length > 0;
+
+  const canPromote = ownTurn && gameState.canPromoteUnit(selectedUnit.id);
+  const captureTarget = ownTurn && gameState.canCaptureCity(selectedUnit.id)
+    ? gameState.getCityAt(selectedUnit.x, selectedUnit.y)
+    : undefined;
+
+  // Recovering consumes the whole turn, so it is only offered before acting
+  const recoverAmount = ownTurn && gameState.canRecover(selectedUnit.id)
+    ? gameState.getRecoverAmount(selectedUnit.id)
+    : 0;
+
   const hpFraction = selectedUnit.maxHp > 0
     ? selectedUnit.currentHp / selectedUnit.maxHp
     : 0;
@@ -183,12 +220,123 @@ export function UnitInfoPanel() {
           <span>
             {selectedUnit.kills} kill{selectedUnit.kills !== 1 ? 's' : ''}
           </span>
+          {canPromote && (
+            <span
+              style={{
+                color: '#ffd700',
+                fontWeight: 600,
+              }}
+            >
+              {'\u2605'} Ready to promote
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Promotion (only shown when eligible) */}
+      {canPromote && (
+        <div
+          style={{
+            display: 'flex',
+            marginTop: '8px',
+          }}
+        >
+          <ActionButton label="Promote to Veteran (+5 HP)" onClick={promoteSelectedUnit} />
+        </div>
+      )}
+
+      {/* Capture (only shown on an enemy city held since turn start) */}
+      {captureTarget && (
+        <div
+          style={{
+            display: 'flex',
+            marginTop: '8px',
+          }}
+        >
+          <ActionButton label={`Capture ${captureTarget.name}`} onClick={captureWithSelectedUnit} />
+        </div>
+      )}
+
+      {/* Recover (only shown for a wounded unit that has not acted) */}
+      {recoverAmount > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            marginTop: '8px',
+          }}
+        >
+          <ActionButton label={`Recover +${recoverAmount} HP`} onClick={recoverSelectedUnit} />
+        </div>
+      )}
+
+      {/* Mind Bender skills (only shown when there is a target) */}
+      {(convertTargets.length > 0 || canHeal) && (
+        <div
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            gap: '6px',
+            marginTop: '8px',
+          }}
+        >
+          {canHeal && <ActionButton label="Heal" onClick={healWithSelectedUnit} />}
+          {convertTargets.map(target => (
+            <ActionButton
+              key={target.id}
+              label={`Convert ${formatUnitName(target.type)}`}
+              onClick={() => convertWithSelectedUnit(target.x, target.y)}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Naval upgrades (only shown on a friendly port) */}
+      {upgrades.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            gap: '6px',
+            marginTop: '8px',
+          }}
+        >
+          {upgrades.map(({ type, cost }) => (
+            <ActionButton
+              key={type}
+              label={`${formatUnitName(type)} \u2B50${cost}`}
+              onClick={() => upgradeSelectedUnit(type)}
+            />
+          ))}
         </div>
       )}
     </div>
   );
 }
 
+/** Compact action button. */
+function ActionButton({ label, onClick }: { readonly label: string; readonly onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      style={{
+        flex: 1,
+        minHeight: '36px',
+        padding: '6px 8px',
+        backgroundColor: 'rgba(255,255,255,0.12)',
+        border: '1px solid rgba(255,255,255,0.25)',
+        borderRadius: '6px',
+        color: '#fff',
+        fontSize: '12px',
+        fontWeight: 600,
+        fontFamily: 'sans-serif',
+        cursor: 'pointer',
+      }}
+    >
+      {label}
+    </button>
+  );
+}
+
 /** Small stat display cell. */
 function StatItem({ label, value }: { readonly label: string; readonly value: number }) {
   return (
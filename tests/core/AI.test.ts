@@ -3,7 +3,7 @@ import { GameState } from '../../src/core/GameState.js';
 import { GameMap } from '../../src/core/GameMap.js';
 import { createCity } from '../../src/core/City.js';
 import { createUnit, resetUnitIdCounter } from '../../src/core/UnitFactory.js';
-import { TileType, UnitType } from '../../src/core/types.js';
+import { TileType, UnitActionState, UnitType } from '../../src/core/types.js';
 import { executeAITurn } from '../../src/core/AI.js';
 import type { GameConfig } from '../../src/core/types.js';
 
@@ -121,7 +121,26 @@ describe('AI — train', () => {
 });
 
 // ---------------------------------------------------------------------------
-// Phase 3: Move
+// Phase 3: Capture
+// ---------------------------------------------------------------------------
+
+describe('AI — capture', () => {
+  it('captures a village its unit started the turn on', () => {
+    const state = makeState();
+    state.addCity(createCity('neutral', { x: 3, y: 3 }, 'Village', false));
+    const unit = createUnit(UnitType.Warrior, 1, 3, 3);
+    state.addUnit(unit);
+
+    advanceToPlayer1(state);
+    executeAITurn(state);
+
+    expect(state.getCityAt(3, 3)!.owner).toBe('imperius');
+    expect(state.getUnit(unit.id)!.x).toBe(3);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Phase 4: Move
 // ---------------------------------------------------------------------------
 
 describe('AI — move', () => {
@@ -150,12 +169,12 @@ describe('AI — move', () => {
       Math.abs(moved.x - enemy.x) + Math.abs(moved.y - enemy.y);
 
     expect(distAfter).toBeLessThan(distBefore);
-    expect(moved.hasMoved).toBe(true);
+    expect(moved.actionState).not.toBe(UnitActionState.Ready);
   });
 });
 
 // ---------------------------------------------------------------------------
-// Phase 4: Attack
+// Phase 5: Attack
 // ---------------------------------------------------------------------------
 
 describe('AI — attack', () => {
@@ -185,6 +204,25 @@ describe('AI — attack', () => {
       expect(enemyAfter).toBeUndefined();
     }
   });
+
+  it('does not target hidden units', () => {
+    const state = makeState();
+
+    // A Cloak two tiles from an AI archer garrisoned in a mountain city,
+    // which can see the Cloak's tile and stays put instead of exploring
+    const cloak = createUnit(UnitType.Cloak, 0, 3, 3);
+    state.addUnit(cloak);
+    state.map.setTile(3, 5, TileType.Mountain);
+    state.addCity(createCity('imperius', { x: 3, y: 5 }, 'Fort', false));
+    state.addUnit(createUnit(UnitType.Archer, 1, 3, 5));
+
+    advanceToPlayer1(state);
+    expect(state.isTileVisible(1, 3, 3)).toBe(true);
+
+    executeAITurn(state);
+
+    expect(state.getUnit(cloak.id)!.currentHp).toBe(cloak.currentHp);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBuildingDefinition,
+  getAllBuildings,
+  isPlacementValid,
+  canBuild,
+  parseAdjacencyFormula,
+  getBuildingPopulation,
+  getBuildingIncome,
+} from '../../src/core/Buildings.js';
+import { GameMap } from '../../src/core/GameMap.js';
+import { BuildingType, ResourceType, TileType } from '../../src/core/types.js';
+import { makeContext } from './helpers.js';
+
+describe('Buildings', () => {
+  describe('definitions', () => {
+    it('defines every BuildingType', () => {
+      const types = getAllBuildings().map(b => b.type);
+      for (const type of Object.values(BuildingType)) {
+        expect(types).toContain(type);
+      }
+    });
+
+    it('matches the design doc costs', () => {
+      expect(getBuildingDefinition(BuildingType.Farm).cost).toBe(5);
+      expect(getBuildingDefinition(BuildingType.LumberHut).cost).toBe(3);
+      expect(getBuildingDefinition(BuildingType.Port).cost).toBe(7);
+      expect(getBuildingDefinition(BuildingType.ForestTemple).cost).toBe(15);
+    });
+  });
+
+  describe('isPlacementValid', () => {
+    it('requires the matching terrain and resource', () => {
+      const map = GameMap.create(5, 5, TileType.Field);
+      const farm = getBuildingDefinition(BuildingType.Farm).placement;
+      expect(isPlacementValid(map.getTile(1, 1)!, farm, map)).toBe(false);
+      map.setResource(1, 1, ResourceType.Crop);
+      expect(isPlacementValid(map.getTile(1, 1)!, farm, map)).toBe(true);
+    });
+
+    it('coastal means shallow water next to land', () => {
+      const map = GameMap.create(5, 5, TileType.ShallowWater);
+      map.setTile(0, 0, TileType.Field);
+      const port = getBuildingDefinition(BuildingType.Port).placement;
+      expect(isPlacementValid(map.getTile(1, 1)!, port, map)).toBe(true);
+      expect(isPlacementValid(map.getTile(3, 3)!, port, map)).toBe(false);
+    });
+
+    it('any means any land tile', () => {
+      const map = GameMap.create(5, 5, TileType.Forest);
+      map.setTile(2, 2, TileType.Ocean);
+      const road = getBuildingDefinition(BuildingType.Road).placement;
+      expect(isPlacementValid(map.getTile(1, 1)!, road, map)).toBe(true);
+      expect(isPlacementValid(map.getTile(2, 2)!, road, map)).toBe(false);
+    });
+  });
+
+  describe('canBuild', () => {
+    it('requires the unlocking tech', () => {
+      const map = GameMap.create(5, 5, TileType.Forest);
+      const tile = map.getTile(1, 1)!;
+      expect(canBuild(tile, BuildingType.LumberHut, makeContext(map, []))).toBe(false);
+      expect(canBuild(tile, BuildingType.LumberHut, makeContext(map, ['hunting', 'forestry']))).toBe(true);
+    });
+
+    it('refuses tiles that already have a building', () => {
+      const map = GameMap.create(5, 5, TileType.Forest);
+      map.setBuilding(1, 1, BuildingType.LumberHut);
+      expect(canBuild(map.getTile(1, 1)!, BuildingType.LumberHut, makeContext(map, ['hunting', 'forestry']))).toBe(false);
+    });
+
+    it('refuses the city tile itself', () => {
+      const map = GameMap.create(5, 5, TileType.Forest);
+      expect(canBuild(map.getTile(2, 2)!, BuildingType.LumberHut, makeContext(map, ['hunting', 'forestry']))).toBe(false);
+    });
+
+    it('requires own city territory for non-infrastructure buildings', () => {
+      const map = GameMap.create(5, 5, TileType.Forest);
+      const ctx = makeContext(map, ['hunting', 'forestry'], false);
+      expect(canBuild(map.getTile(1, 1)!, BuildingType.LumberHut, ctx)).toBe(false);
+
+      const enemy = { ...makeContext(map, ['hunting', 'forestry']), tribe: 'imperius' as const };
+      expect(canBuild(map.getTile(1, 1)!, BuildingType.LumberHut, enemy)).toBe(false);
+    });
+
+    it('allows roads on unclaimed land outside city borders', () => {
+      const map = GameMap.create(5, 5, TileType.Field);
+      const ctx = makeContext(map, ['riding', 'roads'], false);
+      expect(canBuild(map.getTile(4, 4)!, BuildingType.Road, ctx)).toBe(true);
+      map.setOwner(4, 4, 'imperius');
+      expect(canBuild(map.getTile(4, 4)!, BuildingType.Road, ctx)).toBe(false);
+    });
+
+    it('never allows monuments to be built directly', () => {
+      const map = GameMap.create(5, 5, TileType.Field);
+      expect(canBuild(map.getTile(1, 1)!, BuildingType.Monument, makeContext(map, ['riding', 'freeSpirit']))).toBe(false);
+    });
+  });
+
+  describe('adjacency formulas', () => {
+    it('parses population formulas', () => {
+      expect(parseAdjacencyFormula('+2/adj mine')).toEqual({
+        amount: 2,
+        yields: 'population',
+        adjacent: [BuildingType.Mine],
+      });
+    });
+
+    it('parses the Market star formula over production buildings', () => {
+      const bonus = parseAdjacencyFormula('+1 SPT/adj production building');
+      expect(bonus?.yields).toBe('stars');
+      expect(bonus?.adjacent).toEqual([BuildingType.Sawmill, BuildingType.Windmill, BuildingType.Forge]);
+    });
+
+    it('rejects unknown formulas', () => {
+      expect(parseAdjacencyFormula('+1/adj castle')).toBeUndefined();
+      expect(parseAdjacencyFormula('lots')).toBeUndefined();
+    });
+
+    it('counts matching buildings on all 8 neighbours', () => {
+      const map = GameMap.create(5, 5, TileType.Field);
+      map.setBuilding(2, 2, BuildingType.Sawmill);
+      map.setBuilding(1, 1, BuildingType.LumberHut);
+      map.setBuilding(3, 2, BuildingType.LumberHut);
+      map.setBuilding(4, 4, BuildingType.LumberHut);
+      expect(getBuildingPopulation(map, 2, 2)).toBe(2);
+      expect(getBuildingPopulation(map, 1, 1)).toBe(1);
+      expect(getBuildingPopulation(map, 0, 0)).toBe(0);
+    });
+
+    it('Markets yield income, not population', () => {
+      const map = GameMap.create(5, 5, TileType.Field);
+      map.setBuilding(2, 2, BuildingType.Market);
+      map.setBuilding(2, 3, BuildingType.Windmill);
+      map.setBuilding(3, 3, BuildingType.Farm);
+      expect(getBuildingIncome(map, 2, 2)).toBe(1);
+      expect(getBuildingPopulation(map, 2, 2)).toBe(0);
+    });
+  });
+});
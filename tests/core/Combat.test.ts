@@ -6,8 +6,11 @@ import {
   previewCombat,
   getDefenseBonusForTerrain,
   getCityDefenseBonus,
+  getDefenseBonus,
+  resolveSplash,
 } from '../../src/core/Combat.js';
-import { UnitInstance, UnitSkill, UnitType, TileType } from '../../src/core/types.js';
+import { createCity } from '../../src/core/City.js';
+import { UnitActionState, UnitInstance, UnitSkill, UnitType, TileType } from '../../src/core/types.js';
 
 /** Helper to create a unit for testing. */
 function makeUnit(overrides: Partial<UnitInstance> = {}): UnitInstance {
@@ -25,8 +28,7 @@ function makeUnit(overrides: Partial<UnitInstance> = {}): UnitInstance {
     range: 1,
     kills: 0,
     isVeteran: false,
-    hasMoved: false,
-    hasAttacked: false,
+    actionState: UnitActionState.Ready,
     isHidden: false,
     skills: [UnitSkill.Dash, UnitSkill.Fortify],
     ...overrides,
@@ -172,12 +174,12 @@ describe('Combat', () => {
       expect(result.damageToDefender).toBeGreaterThan(0);
     });
 
-    it('should correctly track hasAttacked flag', () => {
-      const attacker = makeUnit({ hasAttacked: false });
+    it('should end the attacker\'s turn without Escape or Persist', () => {
+      const attacker = makeUnit();
       const defender = makeUnit({ id: 'def', owner: 1 });
 
       const result = resolveCombat(attacker, defender, 1.0, 1);
-      expect(result.attacker.hasAttacked).toBe(true);
+      expect(result.attacker.actionState).toBe(UnitActionState.Done);
     });
 
     it('should handle zero-stat combat gracefully', () => {
@@ -279,16 +281,64 @@ describe('Combat', () => {
     });
   });
 
+  describe('resolveSplash', () => {
+    it('deals half the damage of a direct attack, without retaliation', () => {
+      const attacker = makeUnit({ atk: 3 });
+      const victim = makeUnit({ id: 'victim', owner: 1 });
+
+      const direct = resolveCombat(attacker, victim, 1.0, 1);
+      const hit = resolveSplash(attacker, victim, 1.0);
+      expect(hit.damage).toBe(Math.floor(direct.damageToDefender / 2));
+      expect(hit.unit.currentHp).toBe(victim.currentHp - hit.damage);
+      expect(hit.killed).toBe(false);
+    });
+
+    it('can kill a weakened unit', () => {
+      const hit = resolveSplash(makeUnit({ atk: 3 }), makeUnit({ id: 'victim', owner: 1, currentHp: 1 }), 1.0);
+      expect(hit.killed).toBe(true);
+      expect(hit.unit.currentHp).toBe(0);
+    });
+  });
+
+  describe('getDefenseBonus', () => {
+    const city = createCity('xinxi', { x: 0, y: 0 }, 'Capital', true);
+
+    it('gives fortified units the city bonus', () => {
+      const bonus = getDefenseBonus(makeUnit(), TileType.Field, city);
+      expect(bonus).toMatchObject({ multiplier: 1.5, source: 'city' });
+    });
+
+    it('gives fortified units the wall bonus behind walls', () => {
+      const bonus = getDefenseBonus(makeUnit(), TileType.Field, { ...city, hasWall: true });
+      expect(bonus).toMatchObject({ multiplier: 4.0, source: 'cityWall' });
+    });
+
+    it('falls back to terrain for units without Fortify', () => {
+      const swordsman = makeUnit({ skills: [UnitSkill.Dash] });
+      const bonus = getDefenseBonus(swordsman, TileType.Field, { ...city, hasWall: true });
+      expect(bonus.multiplier).toBe(1.0);
+      expect(bonus.source).toBe('none');
+      expect(bonus.reason).toContain('cannot fortify');
+    });
+
+    it('uses the terrain bonus outside cities', () => {
+      expect(getDefenseBonus(makeUnit(), TileType.Forest, undefined)).toMatchObject({ multiplier: 1.5, source: 'terrain' });
+      expect(getDefenseBonus(makeUnit(), TileType.Field, undefined)).toMatchObject({ multiplier: 1.0, source: 'none' });
+    });
+  });
+
   describe('previewCombat', () => {
     it('should return same values as resolveCombat for damage', () => {
       const attacker = makeUnit({ atk: 3, def: 3, currentHp: 15, maxHp: 15, skills: [UnitSkill.Dash] });
       const defender = makeUnit({ id: 'def', owner: 1, atk: 1, def: 3, currentHp: 15, maxHp: 15, skills: [UnitSkill.Fortify] });
 
-      const preview = previewCombat(attacker, defender, 1.5, 1);
+      const bonus = getDefenseBonus(defender, TileType.Forest, undefined);
+      const preview = previewCombat(attacker, defender, bonus, 1);
       const result = resolveCombat(attacker, defender, 1.5, 1);
 
       expect(preview.damageToDefender).toBe(result.damageToDefender);
       expect(preview.damageToAttacker).toBe(result.damageToAttacker);
+      expect(preview.defenseBonus).toBe(bonus);
     });
   });
 });
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { findCityConnections } from '../../src/core/Connections.js';
+import { GameMap } from '../../src/core/GameMap.js';
+import { createCity } from '../../src/core/City.js';
+import { BuildingType, TileType } from '../../src/core/types.js';
+
+const capital = createCity('xinxi', { x: 1, y: 1 }, 'Capital', true);
+const town = createCity('xinxi', { x: 5, y: 1 }, 'Town', false);
+
+function roadBetween(map: GameMap): void {
+  for (let x = 2; x <= 4; x++) map.setBuilding(x, 1, BuildingType.Road);
+}
+
+describe('findCityConnections', () => {
+  it('connects cities along a road with the route from the capital', () => {
+    const map = GameMap.create(8, 8, TileType.Field);
+    roadBetween(map);
+
+    const [connection] = findCityConnections(map, [capital, town], 'xinxi');
+    expect(connection.city).toEqual({ x: 5, y: 1 });
+    expect(connection.capital).toEqual({ x: 1, y: 1 });
+    expect(connection.route).toEqual([1, 2, 3, 4, 5].map(x => ({ x, y: 1 })));
+  });
+
+  it('a broken road leaves the city unconnected', () => {
+    const map = GameMap.create(8, 8, TileType.Field);
+    roadBetween(map);
+    map.setBuilding(3, 1, undefined);
+
+    expect(findCityConnections(map, [capital, town], 'xinxi')).toEqual([]);
+  });
+
+  it('roads in enemy territory and enemy cities break the chain', () => {
+    const map = GameMap.create(8, 8, TileType.Field);
+    roadBetween(map);
+    map.setOwner(3, 1, 'imperius');
+    expect(findCityConnections(map, [capital, town], 'xinxi')).toEqual([]);
+
+    const blocker = createCity('imperius', { x: 3, y: 1 }, 'Enemy', false);
+    map.setOwner(3, 1, undefined);
+    expect(findCityConnections(map, [capital, town, blocker], 'xinxi')).toEqual([]);
+  });
+
+  it('connects ports across water', () => {
+    const map = GameMap.create(8, 8, TileType.Field);
+    for (let x = 2; x <= 4; x++) map.setTile(x, 1, TileType.ShallowWater);
+    map.setBuilding(2, 1, BuildingType.Port);
+    map.setBuilding(4, 1, BuildingType.Port);
+    map.setOwner(2, 1, 'xinxi');
+    map.setOwner(4, 1, 'xinxi');
+
+    expect(findCityConnections(map, [capital, town], 'xinxi')).toHaveLength(1);
+
+    // Water alone does not connect without ports at both ends
+    map.setBuilding(4, 1, undefined);
+    expect(findCityConnections(map, [capital, town], 'xinxi')).toEqual([]);
+  });
+
+  it('returns nothing for a tribe without a capital', () => {
+    const map = GameMap.create(8, 8, TileType.Field);
+    roadBetween(map);
+    expect(findCityConnections(map, [town], 'xinxi')).toEqual([]);
+  });
+});
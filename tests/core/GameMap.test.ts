@@ -1,6 +1,14 @@
 import { describe, it, expect } from 'vitest';
 import { GameMap } from '@core/GameMap';
-import { TileType } from '@core/types';
+import type { MovementContext } from '@core/GameMap';
+import { PlayerTechState } from '@core/TechTree';
+import { createUnit } from '@core/UnitFactory';
+import { BuildingType, TileType, UnitType } from '@core/types';
+import type { TechId } from '@core/types';
+
+function mover(type: UnitType, techs: TechId[] = []): MovementContext {
+  return { unit: createUnit(type, 0, 0, 0), tribe: 'xinxi', techs: new PlayerTechState(techs) };
+}
 
 // ---------------------------------------------------------------------------
 // Construction & dimensions
@@ -203,6 +211,84 @@ describe('getMovementCost', () => {
     const map = GameMap.create(5, 5, TileType.Field);
     expect(map.getMovementCost({ x: 4, y: 0 }, { x: 5, y: 0 })).toBe(99);
   });
+
+  it('returns 0.5 for road-to-road movement', () => {
+    const map = GameMap.create(5, 5, TileType.Field);
+    map.setBuilding(1, 1, BuildingType.Road);
+    map.setBuilding(2, 1, BuildingType.Road);
+    expect(map.getMovementCost({ x: 1, y: 1 }, { x: 2, y: 1 })).toBe(0.5);
+  });
+
+  it('returns 1.0 when stepping onto a road from a plain tile', () => {
+    const map = GameMap.create(5, 5, TileType.Field);
+    map.setBuilding(2, 1, BuildingType.Road);
+    expect(map.getMovementCost({ x: 1, y: 1 }, { x: 2, y: 1 })).toBe(1.0);
+  });
+
+  it('a road negates the forest penalty', () => {
+    const map = GameMap.create(5, 5, TileType.Field);
+    map.setTile(2, 1, TileType.Forest);
+    map.setBuilding(2, 1, BuildingType.Road);
+    expect(map.getMovementCost({ x: 1, y: 1 }, { x: 2, y: 1 })).toBe(1.0);
+  });
+
+  it('treats a bridge as a road', () => {
+    const map = GameMap.create(5, 5, TileType.Field);
+    map.setTile(2, 1, TileType.ShallowWater);
+    map.setBuilding(1, 1, BuildingType.Road);
+    map.setBuilding(2, 1, BuildingType.Bridge);
+    expect(map.getMovementCost({ x: 1, y: 1 }, { x: 2, y: 1 })).toBe(0.5);
+  });
+});
+
+describe('getMovementCost with a moving unit', () => {
+  it('Creep units ignore the forest and mountain stop', () => {
+    const map = GameMap.create(5, 5, TileType.Field);
+    map.setTile(2, 2, TileType.Forest);
+    map.setTile(3, 2, TileType.Mountain);
+    const cloak = mover(UnitType.Cloak);
+    expect(map.getMovementCost({ x: 1, y: 2 }, { x: 2, y: 2 }, cloak)).toBe(1.0);
+    expect(map.getMovementCost({ x: 2, y: 2 }, { x: 3, y: 2 }, cloak)).toBe(1.0);
+  });
+
+  it('water costs 1 for naval units', () => {
+    const map = GameMap.create(5, 5, TileType.Ocean);
+    expect(map.getMovementCost({ x: 1, y: 1 }, { x: 2, y: 1 }, mover(UnitType.Raft))).toBe(1.0);
+  });
+});
+
+describe('isPassable', () => {
+  it('mountains require Climbing', () => {
+    const map = GameMap.create(5, 5, TileType.Mountain);
+    expect(map.isPassable({ x: 1, y: 1 }, mover(UnitType.Warrior))).toBe(false);
+    expect(map.isPassable({ x: 1, y: 1 }, mover(UnitType.Warrior, ['climbing']))).toBe(true);
+  });
+
+  it('land units cannot enter water except over a bridge', () => {
+    const map = GameMap.create(5, 5, TileType.ShallowWater);
+    map.setBuilding(2, 2, BuildingType.Bridge);
+    expect(map.isPassable({ x: 1, y: 1 }, mover(UnitType.Warrior, ['fishing']))).toBe(false);
+    expect(map.isPassable({ x: 2, y: 2 }, mover(UnitType.Warrior))).toBe(true);
+  });
+
+  it('shallow water requires Fishing and ocean requires Sailing for naval units', () => {
+    const map = GameMap.create(5, 5, TileType.ShallowWater);
+    map.setTile(3, 3, TileType.Ocean);
+    expect(map.isPassable({ x: 1, y: 1 }, mover(UnitType.Raft))).toBe(false);
+    expect(map.isPassable({ x: 1, y: 1 }, mover(UnitType.Raft, ['fishing']))).toBe(true);
+    expect(map.isPassable({ x: 3, y: 3 }, mover(UnitType.Raft, ['fishing']))).toBe(false);
+    expect(map.isPassable({ x: 3, y: 3 }, mover(UnitType.Raft, ['fishing', 'sailing']))).toBe(true);
+  });
+
+  it('naval units cannot enter land', () => {
+    const map = GameMap.create(5, 5, TileType.Field);
+    expect(map.isPassable({ x: 1, y: 1 }, mover(UnitType.Raft, ['fishing']))).toBe(false);
+  });
+
+  it('out of bounds is never passable', () => {
+    const map = GameMap.create(5, 5, TileType.Field);
+    expect(map.isPassable({ x: 5, y: 0 }, mover(UnitType.Warrior))).toBe(false);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -304,3 +390,15 @@ describe('getVisibleTiles', () => {
     expect(map.getVisibleTiles(5, 5, 2)).toHaveLength(24);
   });
 });
+
+describe('getOwnedTiles', () => {
+  it('returns only the tiles claimed by the tribe', () => {
+    const map = new GameMap(5, 5);
+    map.setOwner(1, 1, 'xinxi');
+    map.setOwner(2, 1, 'xinxi');
+    map.setOwner(3, 3, 'imperius');
+
+    expect(map.getOwnedTiles('xinxi').map(t => [t.x, t.y])).toEqual([[1, 1], [2, 1]]);
+    expect(map.getOwnedTiles('bardur')).toEqual([]);
+  });
+});
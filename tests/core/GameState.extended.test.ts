@@ -6,9 +6,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { GameState } from '../../src/core/GameState.js';
 import { GameMap } from '../../src/core/GameMap.js';
-import { createCity } from '../../src/core/City.js';
+import { createCity, canLevelUp } from '../../src/core/City.js';
 import { createUnit, resetUnitIdCounter } from '../../src/core/UnitFactory.js';
-import { TileType, UnitType } from '../../src/core/types.js';
+import { BuildingType, ResourceType, TileType, UnitActionState, UnitSkill, UnitType } from '../../src/core/types.js';
 import type { GameConfig, CityInstance } from '../../src/core/types.js';
 
 function makeConfig(overrides?: Partial<GameConfig>): GameConfig {
@@ -97,6 +97,43 @@ describe('GameState — Star Economy', () => {
   });
 });
 
+describe('GameState — Siege', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  it('an enemy unit on the city tile stops its income', () => {
+    const gs = makeGameState();
+    const city = createCity('xinxi', { x: 3, y: 3 }, 'Capital', true);
+    gs.addCity(city);
+    expect(gs.getIncome(0)).toBe(2);
+
+    gs.addUnit(createUnit(UnitType.Warrior, 1, 3, 3));
+    expect(gs.isCityUnderSiege(gs.getCityAt(3, 3)!)).toBe(true);
+    expect(gs.getCityIncome(gs.getCityAt(3, 3)!)).toBe(0);
+    expect(gs.getIncome(0)).toBe(0);
+    expect(gs.getSiegedCities(0).map(c => c.name)).toEqual(['Capital']);
+  });
+
+  it('a friendly unit in the city is not a siege', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    gs.addUnit(createUnit(UnitType.Warrior, 0, 3, 3));
+
+    expect(gs.getSiegedCities(0)).toEqual([]);
+    expect(gs.getIncome(0)).toBe(2);
+  });
+
+  it('a sieged city collects nothing at turn start', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    gs.addCity(createCity('xinxi', { x: 6, y: 6 }, 'Town', false));
+    gs.addUnit(createUnit(UnitType.Warrior, 1, 3, 3));
+
+    gs.endTurn();
+    gs.endTurn();
+    expect(gs.getStars(0)).toBe(5 + 1); // only the town's level income
+  });
+});
+
 describe('GameState — Cities', () => {
   beforeEach(() => resetUnitIdCounter());
 
@@ -157,12 +194,334 @@ describe('GameState — Cities', () => {
     gs.levelUpCity(0, 0, { kind: 'stars', amount: 5, description: 'Immediate stars' });
     expect(gs.getStars(0)).toBe(starsBefore + 5);
   });
+
+  function countTiles(gs: GameState, check: (x: number, y: number) => boolean): number {
+    let count = 0;
+    for (let y = 0; y < gs.map.height; y++) {
+      for (let x = 0; x < gs.map.width; x++) {
+        if (check(x, y)) count++;
+      }
+    }
+    return count;
+  }
+
+  function countExplored(gs: GameState): number {
+    return countTiles(gs, (x, y) => gs.getVisibility(0).isExplored(x, y));
+  }
+
+  it('levelUpCity with explorer charts the fog without putting it in vision', () => {
+    const gs = makeGameState(makeConfig({ mapSize: 16 }));
+    gs.addCity({ ...createCity('xinxi', { x: 1, y: 1 }, 'Capital', true), population: 2 });
+    const explored = countExplored(gs);
+    const visible = countTiles(gs, (x, y) => gs.getVisibility(0).isVisible(x, y));
+
+    gs.levelUpCity(1, 1, { kind: 'explorer', description: 'Reveals surrounding map' });
+    expect(countExplored(gs)).toBeGreaterThan(explored);
+    expect(countTiles(gs, (x, y) => gs.getVisibility(0).isVisible(x, y))).toBe(visible);
+  });
+
+  it('the explorer heads past surroundings that are already explored', () => {
+    const gs = makeGameState(makeConfig({ mapSize: 16 }));
+    gs.addCity({ ...createCity('xinxi', { x: 2, y: 2 }, 'Capital', true), population: 2 });
+    for (const t of gs.map.getTilesInRange(2, 2, 5)) gs.getVisibility(0).explore(t.x, t.y);
+    const before = countExplored(gs);
+
+    gs.levelUpCity(2, 2, { kind: 'explorer', description: 'Reveals surrounding map' });
+    expect(countExplored(gs)).toBeGreaterThan(before);
+  });
+
+  it('levelUpCity with superUnit spawns a Giant in the city', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('xinxi', { x: 3, y: 3 }, 'Capital', true), level: 4, population: 5 });
+
+    gs.levelUpCity(3, 3, { kind: 'superUnit', unitType: UnitType.Giant, description: 'Spawn Giant' });
+    const giant = gs.getUnitAt(3, 3)!;
+    expect(giant.type).toBe(UnitType.Giant);
+    expect(giant.owner).toBe(0);
+    expect(giant.homeCity).toEqual({ x: 3, y: 3 });
+  });
+
+  it('levelUpCity spawns the Giant next to the city when its tile is taken', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('xinxi', { x: 3, y: 3 }, 'Capital', true), level: 4, population: 5 });
+    const guard = createUnit(UnitType.Warrior, 0, 3, 3);
+    gs.addUnit(guard);
+
+    gs.levelUpCity(3, 3, { kind: 'superUnit', unitType: UnitType.Giant, description: 'Spawn Giant' });
+    const giants = gs.getUnitsForPlayer(0).filter(u => u.type === UnitType.Giant);
+    expect(giants).toHaveLength(1);
+    expect(Math.max(Math.abs(giants[0].x - 3), Math.abs(giants[0].y - 3))).toBe(1);
+    expect(gs.getUnitAt(3, 3)!.id).toBe(guard.id);
+  });
+
+  it('levelUpCity with population can leave the city ready for another level', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('xinxi', { x: 3, y: 3 }, 'Capital', true), level: 3, population: 6 });
+
+    gs.levelUpCity(3, 3, { kind: 'population', amount: 3, description: '+3 population' });
+    const city = gs.getCityAt(3, 3)!;
+    expect(city.level).toBe(4);
+    expect(city.population).toBe(5);
+    expect(canLevelUp(city)).toBe(true);
+  });
+});
+
+describe('GameState — Territory', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  it('a founded city claims its 3x3 area', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+
+    const owned = gs.map.getOwnedTiles('xinxi');
+    expect(owned).toHaveLength(9);
+    expect(owned.every(t => Math.abs(t.x - 3) <= 1 && Math.abs(t.y - 3) <= 1)).toBe(true);
+  });
+
+  it('a city at the map edge claims only in-bounds tiles', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 0, y: 0 }, 'Capital', true));
+    expect(gs.map.getOwnedTiles('xinxi')).toHaveLength(4);
+  });
+
+  it('neutral villages claim no territory', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('neutral', { x: 3, y: 3 }, 'Village', false));
+    expect(gs.map.getOwnedTiles('neutral')).toEqual([]);
+  });
+
+  it('does not overlap tiles already claimed by another city', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 2, y: 2 }, 'Capital', true));
+    gs.addCity(createCity('imperius', { x: 4, y: 4 }, 'Enemy', true));
+
+    expect(gs.map.getTile(3, 3)!.owner).toBe('xinxi');
+    expect(gs.map.getOwnedTiles('imperius')).toHaveLength(8);
+    expect(gs.getTerritoryCityAt(3, 3)!.owner).toBe('xinxi');
+  });
+
+  it('border growth expands to 5x5 around other borders', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('imperius', { x: 6, y: 6 }, 'Enemy', true));
+    gs.addCity({ ...createCity('xinxi', { x: 3, y: 3 }, 'Capital', true), level: 3, population: 4 });
+
+    gs.levelUpCity(3, 3, { kind: 'borderGrowth', description: '3x3 -> 5x5 territory' });
+    expect(gs.getCityAt(3, 3)!.borderSize).toBe(5);
+    expect(gs.map.getOwnedTiles('xinxi')).toHaveLength(24);
+    expect(gs.map.getTile(5, 5)!.owner).toBe('imperius');
+  });
+
+  it('overlapping borders of one tribe keep each tile with the city that claimed it', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('xinxi', { x: 2, y: 2 }, 'Capital', true), level: 3, population: 4 });
+    gs.addCity(createCity('xinxi', { x: 5, y: 2 }, 'Outpost', false));
+
+    // The capital's grown border now covers (4,2), already held by the outpost
+    gs.levelUpCity(2, 2, { kind: 'borderGrowth', description: '3x3 -> 5x5 territory' });
+    expect(gs.getTerritoryCityAt(4, 2)!.name).toBe('Outpost');
+    expect(gs.getTerritoryCityAt(3, 2)!.name).toBe('Capital');
+    expect(gs.getTerritoryCityAt(4, 4)!.name).toBe('Capital');
+  });
+
+  it('a captured village holds its tiles against a neighbour\'s border growth', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('xinxi', { x: 2, y: 2 }, 'Capital', true), level: 3, population: 4 });
+    gs.addCity(createCity('neutral', { x: 5, y: 2 }, 'Village', false));
+    const unit = createUnit(UnitType.Warrior, 0, 5, 2);
+    gs.addUnit(unit);
+
+    gs.captureCity(unit.id);
+    gs.levelUpCity(2, 2, { kind: 'borderGrowth', description: '3x3 -> 5x5 territory' });
+    expect(gs.getTerritoryCityAt(4, 2)!.name).toBe('Village');
+    expect(gs.getTerritoryCityAt(4, 1)!.name).toBe('Village');
+    expect(gs.getTerritoryCityAt(3, 2)!.name).toBe('Capital');
+  });
+
+  it('unclaimed land next to a neutral village belongs to no city', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 1, y: 1 }, 'Capital', true));
+    gs.addCity(createCity('neutral', { x: 6, y: 6 }, 'Village', false));
+    gs.getTechState(0).research('riding');
+    gs.getTechState(0).research('roads');
+    gs.addStars(0, 20);
+
+    expect(gs.getTerritoryCityAt(5, 5)).toBeUndefined();
+    expect(gs.build(5, 5, BuildingType.Road)).toBe(true);
+  });
+
+  it('a captured city keeps only the tiles it held', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('imperius', { x: 2, y: 2 }, 'Capital', true), level: 3, population: 4 });
+    gs.addCity(createCity('imperius', { x: 5, y: 2 }, 'Outpost', false));
+    gs.levelUpCity(2, 2, { kind: 'borderGrowth', description: '3x3 -> 5x5 territory' });
+    const unit = createUnit(UnitType.Warrior, 0, 5, 2);
+    gs.addUnit(unit);
+
+    gs.captureCity(unit.id);
+    expect(gs.map.getOwnedTiles('xinxi')).toHaveLength(9);
+    expect(gs.getTerritoryCityAt(4, 2)!.owner).toBe('xinxi');
+    expect(gs.getTerritoryCityAt(3, 2)!.owner).toBe('imperius');
+  });
+
+  it('capturing a city transfers its tiles', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 2, y: 2 }, 'Capital', true));
+    gs.addCity(createCity('imperius', { x: 5, y: 5 }, 'Enemy', true));
+    const unit = createUnit(UnitType.Warrior, 0, 5, 5);
+    gs.addUnit(unit);
+
+    gs.captureCity(unit.id);
+    expect(gs.map.getOwnedTiles('imperius')).toEqual([]);
+    expect(gs.map.getOwnedTiles('xinxi')).toHaveLength(18);
+  });
+
+  it('capturing a neutral village claims its area', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('neutral', { x: 5, y: 5 }, 'Village', false));
+    const unit = createUnit(UnitType.Warrior, 0, 5, 5);
+    gs.addUnit(unit);
+
+    gs.captureCity(unit.id);
+    expect(gs.map.getOwnedTiles('xinxi')).toHaveLength(9);
+  });
+});
+
+describe('GameState — City capture', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  it('moving onto a city does not capture it', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('neutral', { x: 5, y: 5 }, 'Village', false));
+    const unit = createUnit(UnitType.Warrior, 0, 4, 4);
+    gs.addUnit(unit);
+
+    gs.moveUnit(unit.id, 5, 5);
+    expect(gs.getCityAt(5, 5)!.owner).toBe('neutral');
+    expect(gs.canCaptureCity(unit.id)).toBe(false);
+    expect(gs.captureCity(unit.id)).toBeUndefined();
+  });
+
+  it('captures a village after starting the turn on it', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('neutral', { x: 5, y: 5 }, 'Village', false), population: 1 });
+    const unit = createUnit(UnitType.Warrior, 0, 4, 4);
+    gs.addUnit(unit);
+
+    gs.moveUnit(unit.id, 5, 5);
+    gs.endTurn();
+    gs.endTurn();
+
+    const city = gs.captureCity(unit.id)!;
+    expect(city.owner).toBe('xinxi');
+    expect(city.level).toBe(1);
+    expect(city.population).toBe(0);
+    expect(city.name).toBe('Village');
+    expect(gs.getCityAt(5, 5)).toEqual(city);
+    expect(gs.getUnit(unit.id)!.actionState).toBe(UnitActionState.Done);
+  });
+
+  it('an enemy city keeps its level but loses capital status and upgrades', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('imperius', { x: 5, y: 5 }, 'Enemy', true), level: 3, hasWorkshop: true });
+    const unit = createUnit(UnitType.Warrior, 0, 5, 5);
+    gs.addUnit(unit);
+
+    const city = gs.captureCity(unit.id)!;
+    expect(city.owner).toBe('xinxi');
+    expect(city.level).toBe(3);
+    expect(city.isCapital).toBe(false);
+    expect(city.hasWorkshop).toBe(false);
+  });
+
+  it('cannot capture an own city or from the enemy\'s unit', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 2, y: 2 }, 'Capital', true));
+    gs.addCity(createCity('neutral', { x: 5, y: 5 }, 'Village', false));
+    const own = createUnit(UnitType.Warrior, 0, 2, 2);
+    const enemy = createUnit(UnitType.Warrior, 1, 5, 5);
+    gs.addUnit(own);
+    gs.addUnit(enemy);
+
+    expect(gs.captureCity(own.id)).toBeUndefined();
+    expect(gs.captureCity(enemy.id)).toBeUndefined();
+  });
+});
+
+describe('GameState — City connections', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  function withRoad(): GameState {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 1, y: 1 }, 'Capital', true));
+    gs.addCity(createCity('xinxi', { x: 5, y: 1 }, 'Town', false));
+    gs.getTechState(0).research('riding');
+    gs.getTechState(0).research('roads');
+    gs.addStars(0, 20);
+    gs.build(2, 1, BuildingType.Road);
+    gs.build(4, 1, BuildingType.Road);
+    return gs;
+  }
+
+  it('completing a road gives the capital and the city +1 population', () => {
+    const gs = withRoad();
+    expect(gs.getCityConnections('xinxi')).toEqual([]);
+
+    gs.build(3, 1, BuildingType.Road);
+    expect(gs.getCityConnections('xinxi')).toHaveLength(1);
+    expect(gs.getCityAt(1, 1)!.population).toBe(1);
+    expect(gs.getCityAt(5, 1)!.population).toBe(1);
+  });
+
+  it('capturing a connected city removes the bonus', () => {
+    const gs = withRoad();
+    gs.build(3, 1, BuildingType.Road);
+    gs.endTurn();
+    const raider = createUnit(UnitType.Warrior, 1, 5, 1);
+    gs.addUnit(raider);
+
+    gs.captureCity(raider.id);
+    expect(gs.getCityConnections('xinxi')).toEqual([]);
+    expect(gs.getCityAt(1, 1)!.population).toBe(0);
+    expect(gs.getCityAt(5, 1)!.population).toBe(0);
+  });
+
+  it('capturing a city on a road can carry the capital into its next level', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('xinxi', { x: 1, y: 1 }, 'Capital', true), population: 1 });
+    gs.addCity(createCity('imperius', { x: 5, y: 1 }, 'Enemy', true));
+    for (let x = 2; x <= 4; x++) gs.map.setBuilding(x, 1, BuildingType.Road);
+    const unit = createUnit(UnitType.Warrior, 0, 5, 1);
+    gs.addUnit(unit);
+    expect(canLevelUp(gs.getCityAt(1, 1)!)).toBe(false);
+
+    gs.captureCity(unit.id);
+    expect(gs.getCityConnections('xinxi')).toHaveLength(1);
+    expect(canLevelUp(gs.getCityAt(1, 1)!)).toBe(true);
+  });
+
+  it('border growth that takes in a port completes the connection', () => {
+    const gs = makeGameState();
+    gs.map.setTile(3, 1, TileType.ShallowWater);
+    gs.map.setTile(4, 1, TileType.ShallowWater);
+    gs.map.setTile(5, 1, TileType.ShallowWater);
+    gs.map.setBuilding(2, 1, BuildingType.Road);
+    gs.map.setBuilding(3, 1, BuildingType.Port);
+    gs.map.setBuilding(5, 1, BuildingType.Port);
+    gs.addCity({ ...createCity('xinxi', { x: 1, y: 1 }, 'Capital', true), level: 3, population: 4 });
+    gs.addCity(createCity('xinxi', { x: 6, y: 1 }, 'Town', false));
+    expect(gs.getCityConnections('xinxi')).toEqual([]);
+
+    // The capital's 5x5 border now reaches the port at (3,1)
+    gs.levelUpCity(1, 1, { kind: 'borderGrowth', description: '3x3 -> 5x5 territory' });
+    expect(gs.getCityConnections('xinxi')).toHaveLength(1);
+    expect(gs.getCityAt(6, 1)!.population).toBe(1);
+  });
 });
 
 describe('GameState — Combat Execution', () => {
   beforeEach(() => resetUnitIdCounter());
 
-  it('attackUnit deals damage and marks hasAttacked', () => {
+  it('attackUnit deals damage and ends the attacker\'s actions', () => {
     const gs = makeGameState();
     const attacker = createUnit(UnitType.Warrior, 0, 0, 0);
     const defender = createUnit(UnitType.Warrior, 1, 1, 0);
@@ -173,10 +532,10 @@ describe('GameState — Combat Execution', () => {
     expect(result).toBeDefined();
     expect(result!.damageToDefender).toBeGreaterThan(0);
 
-    // Attacker should be marked as having attacked
+    // Attacker should have no actions left
     const updated = gs.getUnit(attacker.id);
     if (updated) {
-      expect(updated.hasAttacked).toBe(true);
+      expect(updated.actionState).toBe(UnitActionState.Done);
     }
   });
 
@@ -276,6 +635,418 @@ describe('GameState — Combat Execution', () => {
   });
 });
 
+describe('GameState — Splash damage', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  function splashUnit(x: number, y: number) {
+    return { ...createUnit(UnitType.Catapult, 0, x, y), skills: [UnitSkill.Splash] };
+  }
+
+  it('damages enemy units next to the target and reports them', () => {
+    const gs = makeGameState();
+    const attacker = splashUnit(3, 3);
+    gs.addUnit(attacker);
+    gs.addUnit(createUnit(UnitType.Warrior, 0, 6, 3)); // vision over (5, 3)
+    const target = createUnit(UnitType.Warrior, 1, 4, 3);
+    const near = createUnit(UnitType.Warrior, 1, 5, 3);
+    const weak = { ...createUnit(UnitType.Warrior, 1, 4, 4), currentHp: 1 };
+    gs.addUnit(target);
+    gs.addUnit(near);
+    gs.addUnit(weak);
+
+    const result = gs.attackUnit(attacker.id, 4, 3)!;
+    expect(result.splash.map(s => s.unit.id).sort()).toEqual([near.id, weak.id].sort());
+    expect(gs.getUnit(near.id)!.currentHp).toBeLessThan(near.currentHp);
+    expect(gs.getUnit(weak.id)).toBeUndefined();
+    expect(result.removed).toContain(weak.id);
+    expect(result.killed.map(u => u.id)).toContain(weak.id);
+    expect(result.affected.map(u => u.id)).toEqual(expect.arrayContaining([target.id, near.id, weak.id]));
+    expect(gs.getUnit(attacker.id)!.kills).toBe(result.killed.length);
+  });
+
+  it('does not hit friendly units', () => {
+    const gs = makeGameState();
+    const attacker = splashUnit(3, 3);
+    gs.addUnit(attacker);
+    const friend = createUnit(UnitType.Warrior, 0, 4, 4);
+    gs.addUnit(friend);
+    gs.addUnit(createUnit(UnitType.Warrior, 1, 4, 3));
+
+    const result = gs.attackUnit(attacker.id, 4, 3)!;
+    expect(result.splash).toEqual([]);
+    expect(gs.getUnit(friend.id)!.currentHp).toBe(friend.currentHp);
+  });
+
+  it('non-splash attacks report only the target', () => {
+    const gs = makeGameState();
+    const attacker = createUnit(UnitType.Warrior, 0, 3, 3);
+    gs.addUnit(attacker);
+    const target = createUnit(UnitType.Warrior, 1, 4, 3);
+    gs.addUnit(target);
+    gs.addUnit(createUnit(UnitType.Warrior, 1, 4, 4));
+
+    const result = gs.attackUnit(attacker.id, 4, 3)!;
+    expect(result.splash).toEqual([]);
+    expect(result.affected.map(u => u.id)).toEqual([target.id, attacker.id]);
+  });
+});
+
+describe('GameState — Mind Bender', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  function withCity(): GameState {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    return gs;
+  }
+
+  it('converts an adjacent enemy unit', () => {
+    const gs = withCity();
+    const bender = createUnit(UnitType.MindBender, 0, 5, 5);
+    const enemy = createUnit(UnitType.Warrior, 1, 6, 5);
+    gs.addUnit(bender);
+    gs.addUnit(enemy);
+
+    expect(gs.getConvertTargets(bender.id).map(u => u.id)).toEqual([enemy.id]);
+    const converted = gs.convertUnit(bender.id, 6, 5)!;
+    expect(converted.owner).toBe(0);
+    expect(gs.getUnit(enemy.id)!.owner).toBe(0);
+    expect(gs.getUnit(enemy.id)!.actionState).toBe(UnitActionState.Done);
+    expect(gs.getUnit(bender.id)!.actionState).toBe(UnitActionState.Done);
+  });
+
+  it('cannot convert when its home city is at unit capacity', () => {
+    const gs = withCity(); // level 1 city supports 2 units
+    const home = { x: 3, y: 3 };
+    const bender = { ...createUnit(UnitType.MindBender, 0, 5, 5), homeCity: home };
+    gs.addUnit(bender);
+    gs.addUnit({ ...createUnit(UnitType.Warrior, 0, 3, 3), homeCity: home });
+    gs.addUnit(createUnit(UnitType.Warrior, 1, 6, 5));
+
+    expect(gs.getConvertTargets(bender.id)).toEqual([]);
+    expect(gs.convertUnit(bender.id, 6, 5)).toBeUndefined();
+  });
+
+  it('converted units are supported by the converter\'s home city', () => {
+    const gs = withCity();
+    const home = { x: 3, y: 3 };
+    const bender = { ...createUnit(UnitType.MindBender, 0, 5, 5), homeCity: home };
+    const enemy = { ...createUnit(UnitType.Warrior, 1, 6, 5), homeCity: { x: 7, y: 7 } };
+    gs.addUnit(bender);
+    gs.addUnit(enemy);
+
+    expect(gs.convertUnit(bender.id, 6, 5)!.homeCity).toEqual(home);
+    expect(gs.getCityUnits(gs.getCityAt(3, 3)!)).toHaveLength(2);
+  });
+
+  it('a converter without a home city assigns the unit to its nearest city with room', () => {
+    const gs = withCity();
+    gs.addCity(createCity('xinxi', { x: 7, y: 7 }, 'Outpost', false));
+    const bender = createUnit(UnitType.MindBender, 0, 6, 6);
+    gs.addUnit(bender);
+    gs.addUnit(createUnit(UnitType.Warrior, 1, 6, 5));
+
+    expect(gs.convertUnit(bender.id, 6, 5)!.homeCity).toEqual({ x: 7, y: 7 });
+  });
+
+  it('a converter without a home city cannot convert when no city has room', () => {
+    const gs = withCity();
+    const home = { x: 3, y: 3 };
+    gs.addUnit({ ...createUnit(UnitType.Warrior, 0, 3, 3), homeCity: home });
+    gs.addUnit({ ...createUnit(UnitType.Warrior, 0, 2, 2), homeCity: home });
+    const bender = createUnit(UnitType.MindBender, 0, 5, 5);
+    gs.addUnit(bender);
+    gs.addUnit(createUnit(UnitType.Warrior, 1, 6, 5));
+
+    expect(gs.getConvertTargets(bender.id)).toEqual([]);
+    expect(gs.convertUnit(bender.id, 6, 5)).toBeUndefined();
+  });
+
+  it('cannot convert out of range', () => {
+    const gs = withCity();
+    const bender = createUnit(UnitType.MindBender, 0, 5, 5);
+    gs.addUnit(bender);
+    gs.addUnit(createUnit(UnitType.Warrior, 1, 7, 5));
+
+    expect(gs.convertUnit(bender.id, 7, 5)).toBeUndefined();
+  });
+
+  it('heals adjacent wounded friendlies by up to 4 HP', () => {
+    const gs = withCity();
+    const bender = createUnit(UnitType.MindBender, 0, 5, 5);
+    const wounded = { ...createUnit(UnitType.Warrior, 0, 6, 5), currentHp: 3 };
+    const scratched = { ...createUnit(UnitType.Warrior, 0, 4, 4), currentHp: 8 };
+    gs.addUnit(bender);
+    gs.addUnit(wounded);
+    gs.addUnit(scratched);
+
+    const healed = gs.healAdjacent(bender.id)!;
+    expect(healed).toHaveLength(2);
+    expect(gs.getUnit(wounded.id)!.currentHp).toBe(7);
+    expect(gs.getUnit(scratched.id)!.currentHp).toBe(10);
+    expect(gs.healAdjacent(bender.id)).toBeUndefined();
+  });
+
+  it('does not heal enemies or without wounded neighbours', () => {
+    const gs = withCity();
+    const bender = createUnit(UnitType.MindBender, 0, 5, 5);
+    gs.addUnit(bender);
+    gs.addUnit({ ...createUnit(UnitType.Warrior, 1, 6, 5), currentHp: 3 });
+
+    expect(gs.getHealTargets(bender.id)).toEqual([]);
+    expect(gs.healAdjacent(bender.id)).toBeUndefined();
+  });
+});
+
+describe('GameState — Cloak stealth', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  it('a Cloak starts hidden from enemies in sight', () => {
+    const gs = makeGameState();
+    const cloak = createUnit(UnitType.Cloak, 0, 3, 3);
+    gs.addUnit(cloak);
+    gs.addUnit(createUnit(UnitType.Warrior, 1, 5, 3));
+
+    expect(cloak.isHidden).toBe(true);
+    expect(gs.isTileVisible(1, 3, 3)).toBe(false);
+    gs.getVisibility(1).reveal(3, 3);
+    expect(gs.getVisibleUnitAt(3, 3, 1)).toBeUndefined();
+    expect(gs.getVisibleUnitAt(3, 3, 0)).toBeDefined();
+  });
+
+  it('is revealed when it ends up next to an enemy', () => {
+    const gs = makeGameState();
+    const cloak = createUnit(UnitType.Cloak, 0, 2, 3);
+    gs.addUnit(cloak);
+    gs.addUnit(createUnit(UnitType.Warrior, 1, 5, 3));
+
+    gs.moveUnit(cloak.id, 4, 3);
+    expect(gs.getUnit(cloak.id)!.isHidden).toBe(false);
+    expect(gs.getVisibleUnitAt(4, 3, 1)).toBeDefined();
+  });
+
+  it('is revealed when it attacks and hides again next turn', () => {
+    const gs = makeGameState();
+    const cloak = createUnit(UnitType.Cloak, 0, 3, 3);
+    gs.addUnit(cloak);
+    // A defenceless target, so the fragile Cloak survives
+    gs.addUnit({ ...createUnit(UnitType.Warrior, 1, 4, 4), def: 0 });
+
+    gs.attackUnit(cloak.id, 4, 4);
+    expect(gs.getUnit(cloak.id)!.isHidden).toBe(false);
+
+    // Move the enemy away, then come back round to player 0
+    gs.removeUnit(gs.getUnitAt(4, 4)!.id);
+    gs.endTurn();
+    gs.endTurn();
+    expect(gs.getUnit(cloak.id)!.isHidden).toBe(true);
+  });
+
+  it('hidden units exert no zone of control', () => {
+    const gs = makeGameState();
+    gs.addUnit(createUnit(UnitType.Cloak, 1, 4, 4));
+    // The only two-step route to (5,4) passes next to the Cloak, at (4,3)
+    const rider = createUnit(UnitType.Rider, 0, 3, 2);
+    gs.addUnit(rider);
+
+    expect(gs.getMovementRange(rider.id).has('5,4')).toBe(true);
+  });
+
+  it('hidden units do not block movement, but a move into one stops next to it', () => {
+    const gs = makeGameState();
+    const cloak = createUnit(UnitType.Cloak, 1, 5, 3);
+    gs.addUnit(cloak);
+    const rider = createUnit(UnitType.Rider, 0, 3, 3);
+    gs.addUnit(rider);
+
+    expect(gs.getMovementRange(rider.id).has('5,3')).toBe(true);
+    expect(gs.moveUnit(rider.id, 5, 3)).toBe(true);
+    expect(gs.getUnit(rider.id)).toMatchObject({ x: 4, actionState: UnitActionState.CanAttack });
+    expect(gs.getUnit(cloak.id)).toMatchObject({ x: 5, y: 3, isHidden: false });
+    expect(gs.getVisibleUnitAt(5, 3, 0)).toBeDefined();
+  });
+
+  it('is revealed when an enemy unit is trained or placed next to it', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    gs.addStars(0, 10);
+    const first = createUnit(UnitType.Cloak, 1, 4, 4);
+    const second = createUnit(UnitType.Cloak, 1, 7, 7);
+    gs.addUnit(first);
+    gs.addUnit(second);
+
+    gs.trainUnit(3, 3, UnitType.Warrior);
+    expect(gs.getUnit(first.id)!.isHidden).toBe(false);
+
+    gs.addUnit(createUnit(UnitType.Warrior, 0, 6, 6));
+    expect(gs.getUnit(second.id)!.isHidden).toBe(false);
+  });
+
+  it('infiltrating an enemy city spawns rebels and grants stars', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('imperius', { x: 5, y: 5 }, 'Enemy', false), level: 2 });
+    const cloak = createUnit(UnitType.Cloak, 0, 4, 5);
+    gs.addUnit(cloak);
+    const stars = gs.getStars(0);
+
+    expect(gs.moveUnit(cloak.id, 5, 5)).toBe(true);
+    expect(gs.getUnit(cloak.id)).toBeUndefined();
+    expect(gs.getCityAt(5, 5)!.owner).toBe('imperius');
+    const rebels = gs.getUnitsForPlayer(0);
+    expect(rebels).toHaveLength(2);
+    expect(rebels.every(u => u.type === UnitType.Warrior)).toBe(true);
+    expect(gs.getStars(0)).toBe(stars + 2);
+  });
+});
+
+describe('GameState — Recover', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  function withCity(config?: GameConfig): GameState {
+    const gs = makeGameState(config);
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    return gs;
+  }
+
+  it('recovers 4 HP in friendly territory and ends the turn', () => {
+    const gs = withCity();
+    const unit = { ...createUnit(UnitType.Warrior, 0, 4, 4), currentHp: 3 };
+    gs.addUnit(unit);
+
+    const recovered = gs.recoverUnit(unit.id)!;
+    expect(recovered.currentHp).toBe(7);
+    expect(recovered.actionState).toBe(UnitActionState.Done);
+  });
+
+  it('recovers 2 HP outside friendly territory', () => {
+    const gs = withCity();
+    gs.addCity(createCity('imperius', { x: 6, y: 6 }, 'Enemy', true));
+    const neutral = { ...createUnit(UnitType.Warrior, 0, 0, 7), currentHp: 3 };
+    const enemyLand = { ...createUnit(UnitType.Warrior, 0, 6, 5), currentHp: 3 };
+    gs.addUnit(neutral);
+    gs.addUnit(enemyLand);
+
+    expect(gs.recoverUnit(neutral.id)!.currentHp).toBe(5);
+    expect(gs.recoverUnit(enemyLand.id)!.currentHp).toBe(5);
+  });
+
+  it('is capped at max HP and unavailable at full health', () => {
+    const gs = withCity();
+    const wounded = { ...createUnit(UnitType.Warrior, 0, 4, 4), currentHp: 9 };
+    const healthy = createUnit(UnitType.Warrior, 0, 2, 2);
+    gs.addUnit(wounded);
+    gs.addUnit(healthy);
+
+    expect(gs.getRecoverAmount(wounded.id)).toBe(1);
+    expect(gs.recoverUnit(wounded.id)!.currentHp).toBe(10);
+    expect(gs.canRecover(healthy.id)).toBe(false);
+  });
+
+  it('cannot recover after moving', () => {
+    const gs = withCity();
+    const unit = { ...createUnit(UnitType.Warrior, 0, 4, 4), currentHp: 3 };
+    gs.addUnit(unit);
+
+    gs.moveUnit(unit.id, 4, 5);
+    expect(gs.canRecover(unit.id)).toBe(false);
+    expect(gs.recoverUnit(unit.id)).toBeUndefined();
+    expect(gs.getUnit(unit.id)!.currentHp).toBe(3);
+  });
+
+  it('auto-recovers idle units at turn start when enabled', () => {
+    const gs = withCity(makeConfig({ autoRecover: true }));
+    const idle = { ...createUnit(UnitType.Warrior, 0, 4, 4), currentHp: 3 };
+    const busy = { ...createUnit(UnitType.Warrior, 0, 2, 2), currentHp: 3 };
+    gs.addUnit(idle);
+    gs.addUnit(busy);
+    gs.moveUnit(busy.id, 2, 3);
+
+    gs.endTurn();
+    gs.endTurn();
+    expect(gs.getUnit(idle.id)!.currentHp).toBe(7);
+    expect(gs.getUnit(busy.id)!.currentHp).toBe(3);
+  });
+
+  it('does not auto-recover by default', () => {
+    const gs = withCity();
+    const idle = { ...createUnit(UnitType.Warrior, 0, 4, 4), currentHp: 3 };
+    gs.addUnit(idle);
+
+    gs.endTurn();
+    gs.endTurn();
+    expect(gs.getUnit(idle.id)!.currentHp).toBe(3);
+  });
+});
+
+describe('GameState — Promotion', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  it('promotes a unit with 3 kills to veteran', () => {
+    const gs = makeGameState();
+    const unit = { ...createUnit(UnitType.Warrior, 0, 2, 2), kills: 3, currentHp: 4 };
+    gs.addUnit(unit);
+
+    expect(gs.canPromoteUnit(unit.id)).toBe(true);
+    const promoted = gs.promoteUnit(unit.id)!;
+    expect(promoted.isVeteran).toBe(true);
+    expect(promoted.maxHp).toBe(15);
+    expect(promoted.currentHp).toBe(15);
+    expect(promoted.actionState).toBe(UnitActionState.Ready);
+    expect(gs.canPromoteUnit(unit.id)).toBe(false);
+  });
+
+  it('refuses promotion without enough kills', () => {
+    const gs = makeGameState();
+    const unit = { ...createUnit(UnitType.Warrior, 0, 2, 2), kills: 2 };
+    gs.addUnit(unit);
+
+    expect(gs.promoteUnit(unit.id)).toBeUndefined();
+    expect(gs.getUnit(unit.id)!.isVeteran).toBe(false);
+  });
+
+  it('refuses promotion of Static units and enemy units', () => {
+    const gs = makeGameState();
+    const fixed = { ...createUnit(UnitType.Warrior, 0, 2, 2), kills: 3, skills: [UnitSkill.Static] };
+    const enemy = { ...createUnit(UnitType.Warrior, 1, 5, 5), kills: 3 };
+    gs.addUnit(fixed);
+    gs.addUnit(enemy);
+
+    expect(gs.promoteUnit(fixed.id)).toBeUndefined();
+    expect(gs.promoteUnit(enemy.id)).toBeUndefined();
+  });
+});
+
+describe('GameState — Defense bonus', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  it('a fortified unit in its own city gets the city bonus', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    const warrior = createUnit(UnitType.Warrior, 0, 3, 3);
+    gs.addUnit(warrior);
+
+    expect(gs.getDefenseBonus(warrior).source).toBe('city');
+  });
+
+  it('a unit without Fortify gets only the terrain bonus in a city', () => {
+    const gs = makeGameState();
+    gs.addCity({ ...createCity('xinxi', { x: 3, y: 3 }, 'Capital', true), hasWall: true });
+    const swordsman = createUnit(UnitType.Swordsman, 0, 3, 3);
+    gs.addUnit(swordsman);
+
+    expect(gs.getDefenseBonus(swordsman).multiplier).toBe(1.0);
+  });
+
+  it('an enemy city gives no city bonus', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('imperius', { x: 3, y: 3 }, 'Enemy', true));
+    const warrior = createUnit(UnitType.Warrior, 0, 3, 3);
+    gs.addUnit(warrior);
+
+    expect(gs.getDefenseBonus(warrior).source).toBe('none');
+  });
+});
+
 describe('GameState — Tech Research', () => {
   beforeEach(() => resetUnitIdCounter());
 
@@ -400,6 +1171,62 @@ describe('GameState — Unit Training', () => {
     expect(gs.trainUnit(3, 3, UnitType.Warrior)).toBeUndefined();
   });
 
+  it('trainUnit assigns the city as the unit\'s home', () => {
+    const gs = makeGameState();
+    const city = createCity('xinxi', { x: 3, y: 3 }, 'Capital', true);
+    gs.addCity(city);
+
+    const unit = gs.trainUnit(3, 3, UnitType.Warrior)!;
+    expect(unit.homeCity).toEqual({ x: 3, y: 3 });
+    expect(gs.getCityUnits(city).map(u => u.id)).toEqual([unit.id]);
+  });
+
+  it('trainUnit rejects a city at unit capacity without charging', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    gs.addStars(0, 10);
+
+    // Level 1 supports 2 units
+    gs.trainUnit(3, 3, UnitType.Warrior);
+    gs.moveUnit(gs.getUnitAt(3, 3)!.id, 3, 4);
+    gs.trainUnit(3, 3, UnitType.Warrior);
+    gs.moveUnit(gs.getUnitAt(3, 3)!.id, 2, 3);
+
+    const stars = gs.getStars(0);
+    expect(gs.hasCityCapacity(gs.getCityAt(3, 3)!)).toBe(false);
+    expect(gs.trainUnit(3, 3, UnitType.Warrior)).toBeUndefined();
+    expect(gs.getStars(0)).toBe(stars);
+  });
+
+  it('a lost unit frees its slot', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    gs.addStars(0, 10);
+
+    gs.trainUnit(3, 3, UnitType.Warrior);
+    gs.moveUnit(gs.getUnitAt(3, 3)!.id, 3, 4);
+    gs.trainUnit(3, 3, UnitType.Warrior);
+    gs.removeUnit(gs.getUnitAt(3, 4)!.id);
+    gs.moveUnit(gs.getUnitAt(3, 3)!.id, 2, 3);
+
+    expect(gs.trainUnit(3, 3, UnitType.Warrior)).toBeDefined();
+  });
+
+  it('capturing a city frees its units and rehomes the capturer', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 1, y: 1 }, 'Capital', true));
+    gs.addCity(createCity('imperius', { x: 5, y: 5 }, 'Enemy', true));
+    const attacker = { ...createUnit(UnitType.Warrior, 0, 5, 5), homeCity: { x: 1, y: 1 } };
+    const defender = { ...createUnit(UnitType.Warrior, 1, 7, 7), homeCity: { x: 5, y: 5 } };
+    gs.addUnit(attacker);
+    gs.addUnit(defender);
+
+    expect(gs.captureCity(attacker.id)).toBeDefined();
+    expect(gs.getUnit(defender.id)!.homeCity).toBeUndefined();
+    expect(gs.getUnit(attacker.id)!.homeCity).toEqual({ x: 5, y: 5 });
+    expect(gs.getCityUnits(gs.getCityAt(1, 1)!)).toEqual([]);
+  });
+
   it('trainUnit allows rider for oumaji (has riding tech)', () => {
     const gs = makeGameState(makeConfig({ tribes: ['oumaji', 'imperius'] }));
     gs.addCity(createCity('oumaji', { x: 3, y: 3 }, 'Capital', true));
@@ -411,6 +1238,312 @@ describe('GameState — Unit Training', () => {
   });
 });
 
+describe('GameState — Roads and Bridges', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  function withRoads(): GameState {
+    const gs = makeGameState();
+    gs.getTechState(0).research('riding');
+    gs.getTechState(0).research('roads');
+    gs.addStars(0, 20);
+    return gs;
+  }
+
+  it('builds a road for 3 stars once Roads is researched', () => {
+    const gs = withRoads();
+    expect(gs.buildRoad(2, 2)).toBe(true);
+    expect(gs.map.getTile(2, 2)!.building).toBe(BuildingType.Road);
+    expect(gs.getStars(0)).toBe(22);
+  });
+
+  it('refuses to build a road without the Roads tech', () => {
+    const gs = makeGameState();
+    gs.addStars(0, 20);
+    expect(gs.buildRoad(2, 2)).toBe(false);
+    expect(gs.getStars(0)).toBe(25);
+  });
+
+  it('refuses roads on water, cities, or occupied building slots', () => {
+    const gs = withRoads();
+    gs.map.setTile(1, 1, TileType.ShallowWater);
+    gs.addCity(createCity('xinxi', { x: 4, y: 4 }, 'Capital', true));
+    gs.buildRoad(2, 2);
+
+    expect(gs.buildRoad(1, 1)).toBe(false);
+    expect(gs.buildRoad(4, 4)).toBe(false);
+    expect(gs.buildRoad(2, 2)).toBe(false);
+  });
+
+  it('builds a bridge over a single shallow water tile between land', () => {
+    const gs = withRoads();
+    gs.map.setTile(3, 3, TileType.ShallowWater);
+    expect(gs.buildBridge(3, 3)).toBe(true);
+    expect(gs.map.getTile(3, 3)!.building).toBe(BuildingType.Bridge);
+    expect(gs.getStars(0)).toBe(20);
+  });
+
+  it('refuses a bridge that does not span to land', () => {
+    const gs = withRoads();
+    for (let x = 2; x <= 4; x++) {
+      for (let y = 2; y <= 4; y++) {
+        gs.map.setTile(x, y, TileType.ShallowWater);
+      }
+    }
+    expect(gs.buildBridge(3, 3)).toBe(false);
+  });
+
+  it('a rider travels 4 tiles along a road', () => {
+    const gs = withRoads();
+    for (let x = 0; x <= 4; x++) gs.buildRoad(x, 0);
+    const rider = createUnit(UnitType.Rider, 0, 0, 0);
+    gs.addUnit(rider);
+
+    const range = gs.getMovementRange(rider.id);
+    expect(range.has('4,0')).toBe(true);
+    expect(range.has('5,0')).toBe(false);
+  });
+
+  it('enemy roads give no movement bonus', () => {
+    const gs = makeGameState();
+    for (let x = 0; x <= 4; x++) {
+      gs.map.setBuilding(x, 0, BuildingType.Road);
+      gs.map.setOwner(x, 0, 'imperius');
+    }
+    const rider = createUnit(UnitType.Rider, 0, 0, 0);
+    gs.addUnit(rider);
+
+    expect(gs.getMovementRange(rider.id).has('3,0')).toBe(false);
+  });
+
+  it('land units can cross a bridge', () => {
+    const gs = withRoads();
+    for (let y = 0; y < 8; y++) gs.map.setTile(3, y, TileType.ShallowWater);
+    gs.buildBridge(3, 3);
+    const rider = createUnit(UnitType.Rider, 0, 2, 3);
+    gs.addUnit(rider);
+
+    const range = gs.getMovementRange(rider.id);
+    expect(range.has('3,3')).toBe(true);
+    expect(range.has('4,3')).toBe(true);
+    expect(range.has('3,4')).toBe(false);
+  });
+});
+
+describe('GameState — Buildings', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  function withCity(): GameState {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    gs.getTechState(0).research('hunting');
+    gs.getTechState(0).research('forestry');
+    gs.addStars(0, 20);
+    return gs;
+  }
+
+  it('builds a lumber hut, charging stars and adding population', () => {
+    const gs = withCity();
+    gs.map.setTile(4, 3, TileType.Forest);
+
+    expect(gs.build(4, 3, BuildingType.LumberHut)).toBe(true);
+    expect(gs.map.getTile(4, 3)!.building).toBe(BuildingType.LumberHut);
+    expect(gs.getStars(0)).toBe(22);
+    expect(gs.getCityAt(3, 3)!.population).toBe(1);
+  });
+
+  it('refuses placement outside the building\'s terrain', () => {
+    const gs = withCity();
+    expect(gs.build(4, 3, BuildingType.LumberHut)).toBe(false);
+    expect(gs.getStars(0)).toBe(25);
+  });
+
+  it('refuses to build outside city territory', () => {
+    const gs = withCity();
+    gs.map.setTile(6, 6, TileType.Forest);
+    expect(gs.build(6, 6, BuildingType.LumberHut)).toBe(false);
+  });
+
+  it('refuses when the player cannot afford it', () => {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    gs.getTechState(0).research('organization');
+    gs.getTechState(0).research('farming');
+    gs.map.setResource(4, 4, ResourceType.Crop);
+    gs.spendStars(0, 1);
+
+    expect(gs.build(4, 4, BuildingType.Farm)).toBe(false);
+    expect(gs.map.getTile(4, 4)!.building).toBeUndefined();
+  });
+
+  it('a sawmill adds population for each adjacent lumber hut', () => {
+    const gs = withCity();
+    gs.getTechState(0).research('mathematics');
+    gs.map.setTile(2, 2, TileType.Forest);
+    gs.map.setTile(2, 4, TileType.Forest);
+    gs.addStars(0, 10);
+
+    gs.build(2, 2, BuildingType.LumberHut);
+    expect(gs.build(2, 3, BuildingType.Sawmill)).toBe(true);
+    expect(gs.getCityAt(3, 3)!.population).toBe(2);
+
+    // A hut added later also raises the existing sawmill
+    gs.build(2, 4, BuildingType.LumberHut);
+    expect(gs.getCityAt(3, 3)!.population).toBe(4);
+  });
+
+  it('a market adds income for adjacent production buildings', () => {
+    const gs = withCity();
+    gs.getTechState(0).research('mathematics');
+    gs.getTechState(0).research('riding');
+    gs.getTechState(0).research('roads');
+    gs.getTechState(0).research('trade');
+    gs.addStars(0, 10);
+    const base = gs.getIncome(0);
+
+    gs.build(2, 3, BuildingType.Sawmill);
+    gs.build(2, 2, BuildingType.Market);
+    expect(gs.getIncome(0)).toBe(base + 1);
+    expect(gs.getCityIncome(gs.getCityAt(3, 3)!)).toBe(base + 1);
+  });
+
+  it('lists build options for a tile', () => {
+    const gs = withCity();
+    gs.map.setTile(4, 3, TileType.Forest);
+    expect(gs.getBuildOptions(4, 3)).toEqual([BuildingType.LumberHut]);
+    expect(gs.getBuildOptions(4, 4)).toEqual([]);
+  });
+
+  it('a port makes its tile a friendly port', () => {
+    const gs = withCity();
+    gs.getTechState(0).research('fishing');
+    gs.map.setTile(4, 3, TileType.ShallowWater);
+
+    expect(gs.build(4, 3, BuildingType.Port)).toBe(true);
+    expect(gs.getCityAt(3, 3)!.population).toBe(1);
+  });
+});
+
+describe('GameState — Harvesting', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  function withCity(): GameState {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    gs.getTechState(0).research('hunting');
+    return gs;
+  }
+
+  it('hunting charges stars, removes the animal and adds population', () => {
+    const gs = withCity();
+    gs.map.setResource(4, 4, ResourceType.Animal);
+
+    expect(gs.harvest(4, 4)).toBe(true);
+    expect(gs.getStars(0)).toBe(3);
+    expect(gs.map.getTile(4, 4)!.resource).toBeUndefined();
+    expect(gs.getCityAt(3, 3)!.population).toBe(1);
+  });
+
+  it('two harvests reach the level 2 threshold', () => {
+    const gs = withCity();
+    gs.map.setResource(4, 4, ResourceType.Animal);
+    gs.map.setResource(2, 2, ResourceType.Animal);
+
+    gs.harvest(4, 4);
+    gs.harvest(2, 2);
+    expect(canLevelUp(gs.getCityAt(3, 3)!)).toBe(true);
+  });
+
+  it('refuses without the tech', () => {
+    const gs = withCity();
+    gs.map.setResource(4, 4, ResourceType.Fish);
+    expect(gs.canHarvestAt(4, 4)).toBe(false);
+    expect(gs.harvest(4, 4)).toBe(false);
+    expect(gs.map.getTile(4, 4)!.resource).toBe(ResourceType.Fish);
+  });
+
+  it('refuses outside city territory', () => {
+    const gs = withCity();
+    gs.map.setResource(6, 6, ResourceType.Animal);
+    expect(gs.harvest(6, 6)).toBe(false);
+  });
+
+  it('refuses when unaffordable', () => {
+    const gs = withCity();
+    gs.spendStars(0, 4);
+    gs.map.setResource(4, 4, ResourceType.Animal);
+    expect(gs.harvest(4, 4)).toBe(false);
+    expect(gs.map.getTile(4, 4)!.resource).toBe(ResourceType.Animal);
+  });
+});
+
+describe('GameState — Terrain actions', () => {
+  beforeEach(() => resetUnitIdCounter());
+
+  function withCity(): GameState {
+    const gs = makeGameState();
+    gs.addCity(createCity('xinxi', { x: 3, y: 3 }, 'Capital', true));
+    gs.map.setTile(4, 4, TileType.Forest);
+    return gs;
+  }
+
+  it('clear forest turns forest into field and grants a star', () => {
+    const gs = withCity();
+    gs.getTechState(0).research('hunting');
+    gs.getTechState(0).research('forestry');
+    gs.map.setResource(4, 4, ResourceType.Animal);
+
+    expect(gs.terrainAction(4, 4, 'clearForest')).toBe(true);
+    expect(gs.map.getTile(4, 4)!.type).toBe(TileType.Field);
+    expect(gs.map.getTile(4, 4)!.resource).toBeUndefined();
+    expect(gs.getStars(0)).toBe(6);
+  });
+
+  it('burn forest costs 5 stars and leaves a crop', () => {
+    const gs = withCity();
+    gs.getTechState(0).research('organization');
+    gs.getTechState(0).research('farming');
+    gs.getTechState(0).research('construction');
+
+    expect(gs.terrainAction(4, 4, 'burnForest')).toBe(true);
+    expect(gs.map.getTile(4, 4)!.type).toBe(TileType.Field);
+    expect(gs.map.getTile(4, 4)!.resource).toBe(ResourceType.Crop);
+    expect(gs.getStars(0)).toBe(0);
+  });
+
+  it('grow forest turns a field into forest', () => {
+    const gs = withCity();
+    gs.getTechState(0).research('hunting');
+    gs.getTechState(0).research('archery');
+    gs.getTechState(0).research('spiritualism');
+
+    expect(gs.getTerrainActions(2, 2)).toEqual(['growForest']);
+    expect(gs.terrainAction(2, 2, 'growForest')).toBe(true);
+    expect(gs.map.getTile(2, 2)!.type).toBe(TileType.Forest);
+  });
+
+  it('refuses without the tech or outside territory', () => {
+    const gs = withCity();
+    expect(gs.terrainAction(4, 4, 'clearForest')).toBe(false);
+
+    gs.getTechState(0).research('hunting');
+    gs.getTechState(0).research('forestry');
+    gs.map.setTile(6, 6, TileType.Forest);
+    expect(gs.terrainAction(6, 6, 'clearForest')).toBe(false);
+    expect(gs.map.getTile(6, 6)!.type).toBe(TileType.Forest);
+  });
+
+  it('refuses when unaffordable', () => {
+    const gs = withCity();
+    gs.getTechState(0).research('organization');
+    gs.getTechState(0).research('farming');
+    gs.getTechState(0).research('construction');
+    gs.spendStars(0, 1);
+
+    expect(gs.terrainAction(4, 4, 'burnForest')).toBe(false);
+    expect(gs.map.getTile(4, 4)!.type).toBe(TileType.Forest);
+  });
+});
+
 describe('GameState — Tribe / Player mapping', () => {
   beforeEach(() => resetUnitIdCounter());
 
@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { GameMap } from '@core/GameMap';
 import { GameState } from '@core/GameState';
-import { createUnit, resetUnitIdCounter } from '@core/UnitFactory';
-import { TileType, UnitType } from '@core/types';
+import { createCity } from '@core/City';
+import { createUnit, resetUnitIdCounter, embarkUnit, disembarkUnit } from '@core/UnitFactory';
+import { BuildingType, TileType, UnitActionState, UnitType } from '@core/types';
 import type { GameConfig } from '@core/types';
 
 // ---------------------------------------------------------------------------
@@ -113,7 +114,8 @@ describe('GameState — moveUnit', () => {
     const moved = state.getUnit(unit.id)!;
     expect(moved.x).toBe(4);
     expect(moved.y).toBe(3);
-    expect(moved.hasMoved).toBe(true);
+    // Warriors have Dash, so they may still attack after moving
+    expect(moved.actionState).toBe(UnitActionState.CanAttack);
   });
 
   it('rejects movement for a unit that already moved', () => {
@@ -248,6 +250,27 @@ describe('GameState — terrain effects on movement', () => {
     expect(state.moveUnit(unit.id, 4, 3)).toBe(true);
   });
 
+  it('cannot enter a mountain without Climbing', () => {
+    const state = makeState();
+    state.map.setTile(4, 3, TileType.Mountain);
+    // Player 1 (imperius) starts with Organization, not Climbing
+    const unit = createUnit(UnitType.Warrior, 1, 3, 3);
+    state.addUnit(unit);
+
+    expect(state.getMovementRange(unit.id).has('4,3')).toBe(false);
+  });
+
+  it('a Creep unit moves through forest without stopping', () => {
+    const state = makeState();
+    state.map.setTile(4, 2, TileType.Forest);
+    state.map.setTile(4, 3, TileType.Forest);
+    state.map.setTile(4, 4, TileType.Forest);
+    const cloak = createUnit(UnitType.Cloak, 0, 3, 3);
+    state.addUnit(cloak);
+
+    expect(state.getMovementRange(cloak.id).has('5,3')).toBe(true);
+  });
+
   it('cannot enter ocean', () => {
     const state = makeState();
     state.map.setTile(4, 3, TileType.Ocean);
@@ -361,6 +384,241 @@ describe('GameState — getMovementRange', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Zone of Control
+// ---------------------------------------------------------------------------
+
+describe('GameState — zone of control', () => {
+  it('a unit may enter a tile next to an enemy', () => {
+    const state = makeState();
+    const rider = createUnit(UnitType.Rider, 0, 3, 3);
+    const enemy = createUnit(UnitType.Warrior, 1, 4, 4);
+    state.addUnit(rider);
+    state.addUnit(enemy);
+
+    const range = state.getMovementRange(rider.id);
+    expect(range.has('4,3')).toBe(true);
+    expect(range.has('3,4')).toBe(true);
+  });
+
+  it('a unit must stop on the first tile next to an enemy', () => {
+    const state = makeState();
+    const rider = createUnit(UnitType.Rider, 0, 3, 3);
+    const enemy = createUnit(UnitType.Warrior, 1, 4, 4);
+    state.addUnit(rider);
+    state.addUnit(enemy);
+
+    const range = state.getMovementRange(rider.id);
+    // (5,4) and (4,5) are only reachable through ZoC tiles
+    expect(range.has('5,4')).toBe(false);
+    expect(range.has('4,5')).toBe(false);
+    // Tiles reachable around the ZoC are unaffected
+    expect(range.has('1,1')).toBe(true);
+    expect(range.has('2,5')).toBe(true);
+  });
+
+  it('enemies the mover cannot see exert no ZoC', () => {
+    // A two-row corridor; the enemy sits just outside the rider's sight
+    const state = makeState(8, 2);
+    const rider = createUnit(UnitType.Rider, 0, 0, 0);
+    const enemy = createUnit(UnitType.Warrior, 1, 2, 1);
+    state.addUnit(rider);
+    state.addUnit(enemy);
+    expect(state.getVisibleUnitAt(2, 1, 0)).toBeUndefined();
+
+    expect(state.getMovementRange(rider.id).has('2,0')).toBe(true);
+  });
+
+  it('friendly units do not exert ZoC', () => {
+    const state = makeState();
+    const rider = createUnit(UnitType.Rider, 0, 3, 3);
+    const ally = createUnit(UnitType.Warrior, 0, 4, 4);
+    state.addUnit(rider);
+    state.addUnit(ally);
+
+    const range = state.getMovementRange(rider.id);
+    expect(range.has('5,4')).toBe(true);
+    expect(range.has('4,5')).toBe(true);
+  });
+
+  it('units with Creep ignore ZoC', () => {
+    const state = makeState();
+    const cloak = createUnit(UnitType.Cloak, 0, 3, 3);
+    const enemy = createUnit(UnitType.Warrior, 1, 4, 4);
+    state.addUnit(cloak);
+    state.addUnit(enemy);
+
+    expect(state.getMovementRange(cloak.id).has('5,4')).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Naval — embark / disembark
+// ---------------------------------------------------------------------------
+
+describe('GameState — embark and disembark', () => {
+  /** Xinxi city at (2,3) with a port at (3,3); everything from x=3 east is shallow water. */
+  function makeCoast(): GameState {
+    const state = makeState();
+    for (let y = 0; y < 8; y++) {
+      for (let x = 3; x < 8; x++) state.map.setTile(x, y, TileType.ShallowWater);
+    }
+    state.map.setBuilding(3, 3, BuildingType.Port);
+    state.addCity(createCity('xinxi', { x: 2, y: 3 }, 'Capital', true));
+    return state;
+  }
+
+  it('a land unit moving onto a friendly port becomes a Raft carrying it', () => {
+    const state = makeCoast();
+    const warrior = { ...createUnit(UnitType.Warrior, 0, 2, 3), currentHp: 7 };
+    state.addUnit(warrior);
+
+    expect(state.moveUnit(warrior.id, 3, 3)).toBe(true);
+    const raft = state.getUnit(warrior.id)!;
+    expect(raft.type).toBe(UnitType.Raft);
+    expect(raft.carriedUnit?.type).toBe(UnitType.Warrior);
+    expect(raft.currentHp).toBe(7);
+    expect(raft.maxHp).toBe(10);
+  });
+
+  it('cannot embark at a port outside own territory', () => {
+    const state = makeCoast();
+    state.map.setBuilding(3, 6, BuildingType.Port);
+    const warrior = createUnit(UnitType.Warrior, 0, 2, 6);
+    state.addUnit(warrior);
+
+    expect(state.getMovementRange(warrior.id).has('3,6')).toBe(false);
+  });
+
+  it('a Raft needs Fishing to move on shallow water', () => {
+    const state = makeCoast();
+    const raft = embarkUnit(createUnit(UnitType.Warrior, 0, 3, 3), 3, 3);
+    state.addUnit(raft);
+
+    expect(state.getMovementRange(raft.id).has('4,3')).toBe(false);
+    state.getTechState(0).research('fishing');
+    expect(state.getMovementRange(raft.id).has('5,3')).toBe(true);
+  });
+
+  it('a Raft landing on a field restores the carried unit', () => {
+    const state = makeCoast();
+    state.getTechState(0).research('fishing');
+    const raft = { ...embarkUnit(createUnit(UnitType.Archer, 0, 3, 3), 3, 3), currentHp: 4 };
+    state.addUnit(raft);
+
+    expect(state.moveUnit(raft.id, 2, 2)).toBe(true);
+    const landed = state.getUnit(raft.id)!;
+    expect(landed.type).toBe(UnitType.Archer);
+    expect(landed.carriedUnit).toBeUndefined();
+    expect(landed.currentHp).toBe(4);
+    expect(landed.range).toBe(2);
+    expect(landed.actionState).toBe(UnitActionState.CanAttack);
+  });
+
+  it('a converted Raft lands its unit for its new owner', () => {
+    const state = makeCoast();
+    state.getTechState(0).research('fishing');
+    const bender = { ...createUnit(UnitType.MindBender, 0, 2, 4), homeCity: { x: 2, y: 3 } };
+    const raft = embarkUnit(createUnit(UnitType.Warrior, 1, 3, 4), 3, 4);
+    state.addUnit(bender);
+    state.addUnit(raft);
+
+    expect(state.convertUnit(bender.id, 3, 4)).toBeDefined();
+    state.endTurn();
+    state.endTurn();
+    expect(state.moveUnit(raft.id, 2, 5)).toBe(true);
+    const landed = state.getUnit(raft.id)!;
+    expect(landed.type).toBe(UnitType.Warrior);
+    expect(landed.owner).toBe(0);
+    expect(landed.homeCity).toEqual({ x: 2, y: 3 });
+  });
+
+  it('a Raft cannot continue past the tile it lands on', () => {
+    const state = makeCoast();
+    state.getTechState(0).research('fishing');
+    const raft = embarkUnit(createUnit(UnitType.Warrior, 0, 3, 3), 3, 3);
+    state.addUnit(raft);
+
+    const range = state.getMovementRange(raft.id);
+    expect(range.has('2,2')).toBe(true);
+    expect(range.has('1,2')).toBe(false);
+  });
+
+  it('naval units cannot be trained', () => {
+    const state = makeCoast();
+    state.getTechState(0).research('fishing');
+    state.addStars(0, 10);
+
+    expect(state.trainUnit(2, 3, UnitType.Raft)).toBeUndefined();
+    expect(state.getStars(0)).toBe(15);
+  });
+});
+
+describe('GameState — naval upgrades', () => {
+  function makePort(): GameState {
+    const state = makeState();
+    for (let y = 0; y < 8; y++) {
+      for (let x = 3; x < 8; x++) state.map.setTile(x, y, TileType.ShallowWater);
+    }
+    state.map.setBuilding(3, 3, BuildingType.Port);
+    state.addCity(createCity('xinxi', { x: 2, y: 3 }, 'Capital', true));
+    state.getTechState(0).research('fishing');
+    state.getTechState(0).research('sailing');
+    state.addStars(0, 20);
+    return state;
+  }
+
+  it('upgrades a Raft on a friendly port to a Scout, keeping the carried unit', () => {
+    const state = makePort();
+    const raft = embarkUnit({ ...createUnit(UnitType.Warrior, 0, 2, 3), currentHp: 6 }, 3, 3);
+    state.addUnit(raft);
+
+    const scout = state.upgradeNavalUnit(raft.id, UnitType.Scout);
+    expect(scout?.type).toBe(UnitType.Scout);
+    expect(scout?.id).toBe(raft.id);
+    expect(scout?.movement).toBe(3);
+    expect(scout?.currentHp).toBe(6);
+    expect(scout?.carriedUnit?.type).toBe(UnitType.Warrior);
+    expect(state.getStars(0)).toBe(20);
+  });
+
+  it('lists only upgrades the owner has the tech for', () => {
+    const state = makePort();
+    const raft = embarkUnit(createUnit(UnitType.Warrior, 0, 2, 3), 3, 3);
+    state.addUnit(raft);
+
+    expect(state.getNavalUpgrades(raft.id)).toEqual([UnitType.Scout]);
+    expect(state.upgradeNavalUnit(raft.id, UnitType.Rammer)).toBeUndefined();
+  });
+
+  it('refuses to upgrade away from a port', () => {
+    const state = makePort();
+    const raft = embarkUnit(createUnit(UnitType.Warrior, 0, 2, 3), 4, 3);
+    state.addUnit(raft);
+
+    expect(state.getNavalUpgrades(raft.id)).toEqual([]);
+    expect(state.upgradeNavalUnit(raft.id, UnitType.Scout)).toBeUndefined();
+  });
+
+  it('refuses to upgrade without enough stars', () => {
+    const state = makePort();
+    state.spendStars(0, 22);
+    const raft = embarkUnit(createUnit(UnitType.Warrior, 0, 2, 3), 3, 3);
+    state.addUnit(raft);
+
+    expect(state.upgradeNavalUnit(raft.id, UnitType.Scout)).toBeUndefined();
+    expect(state.getUnit(raft.id)?.type).toBe(UnitType.Raft);
+  });
+
+  it('only upgrades Rafts', () => {
+    const state = makePort();
+    const scout = embarkUnit(createUnit(UnitType.Warrior, 0, 2, 3), 3, 3, UnitType.Scout);
+    state.addUnit(scout);
+
+    expect(state.getNavalUpgrades(scout.id)).toEqual([]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Turn management
 // ---------------------------------------------------------------------------
@@ -384,20 +642,20 @@ describe('GameState — turn management', () => {
     expect(state.getCurrentPlayer()).toBe(0);
   });
 
-  it('endTurn resets hasMoved for the new current player\'s units', () => {
+  it('endTurn resets the action state for the new current player\'s units', () => {
     const state = makeState();
     const unit = createUnit(UnitType.Warrior, 0, 3, 3);
     state.addUnit(unit);
 
     // Move the unit
     state.moveUnit(unit.id, 4, 3);
-    expect(state.getUnit(unit.id)!.hasMoved).toBe(true);
+    expect(state.getUnit(unit.id)!.actionState).not.toBe(UnitActionState.Ready);
 
     // End turn twice to come back to player 0
     state.endTurn(); // -> player 1
     state.endTurn(); // -> player 0 (resets player 0's units)
 
-    expect(state.getUnit(unit.id)!.hasMoved).toBe(false);
+    expect(state.getUnit(unit.id)!.actionState).toBe(UnitActionState.Ready);
   });
 
   it('starts at turn number 1', () => {
@@ -447,8 +705,7 @@ describe('UnitFactory — createUnit', () => {
     expect(unit.def).toBe(2);
     expect(unit.movement).toBe(1);
     expect(unit.range).toBe(1);
-    expect(unit.hasMoved).toBe(false);
-    expect(unit.hasAttacked).toBe(false);
+    expect(unit.actionState).toBe(UnitActionState.Ready);
   });
 
   it('creates a rider with movement=2', () => {
@@ -465,6 +722,38 @@ describe('UnitFactory — createUnit', () => {
   });
 });
 
+describe('UnitFactory — embarkUnit / disembarkUnit', () => {
+  it('a vessel keeps the id and HP of the carried unit', () => {
+    const knight = { ...createUnit(UnitType.Knight, 0, 1, 1), currentHp: 9 };
+    const raft = embarkUnit(knight, 2, 1);
+    expect(raft.id).toBe(knight.id);
+    expect(raft.type).toBe(UnitType.Raft);
+    expect(raft.currentHp).toBe(9);
+    expect(raft.maxHp).toBe(knight.maxHp);
+    expect(raft.movement).toBe(2);
+    expect(raft.carriedUnit).toEqual(knight);
+  });
+
+  it('disembarking restores the land unit with the vessel\'s HP and kills', () => {
+    const raft = { ...embarkUnit(createUnit(UnitType.Warrior, 0, 1, 1), 2, 1), currentHp: 3, kills: 2 };
+    const warrior = disembarkUnit(raft, 3, 1)!;
+    expect(warrior.type).toBe(UnitType.Warrior);
+    expect(warrior.x).toBe(3);
+    expect(warrior.currentHp).toBe(3);
+    expect(warrior.kills).toBe(2);
+    expect(warrior.carriedUnit).toBeUndefined();
+  });
+
+  it('disembarking keeps the vessel\'s home city', () => {
+    const raft = { ...embarkUnit(createUnit(UnitType.Warrior, 0, 1, 1), 2, 1), homeCity: { x: 5, y: 5 } };
+    expect(disembarkUnit(raft, 3, 1)!.homeCity).toEqual({ x: 5, y: 5 });
+  });
+
+  it('disembarking an empty vessel returns undefined', () => {
+    expect(disembarkUnit(createUnit(UnitType.Raft, 0, 0, 0), 1, 0)).toBeUndefined();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // parseCoordKey
 // ---------------------------------------------------------------------------
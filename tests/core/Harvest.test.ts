@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { getHarvestDefinition, canHarvest } from '../../src/core/Harvest.js';
+import { GameMap } from '../../src/core/GameMap.js';
+import { BuildingType, ResourceType, TileType } from '../../src/core/types.js';
+import { makeContext } from './helpers.js';
+
+describe('Harvest', () => {
+  it('defines hunt, fruit, fish and starfish harvests', () => {
+    expect(getHarvestDefinition(ResourceType.Animal)).toMatchObject({ cost: 2, population: 1, tech: 'hunting' });
+    expect(getHarvestDefinition(ResourceType.Fruit)).toMatchObject({ cost: 2, population: 1, tech: 'organization' });
+    expect(getHarvestDefinition(ResourceType.Fish)).toMatchObject({ cost: 2, population: 1, tech: 'fishing' });
+    expect(getHarvestDefinition(ResourceType.Starfish)).toMatchObject({ cost: 0, stars: 8, tech: 'navigation' });
+  });
+
+  it('crops and metal need a building instead', () => {
+    expect(getHarvestDefinition(ResourceType.Crop)).toBeUndefined();
+    expect(getHarvestDefinition(ResourceType.Metal)).toBeUndefined();
+  });
+
+  describe('canHarvest', () => {
+    it('requires the unlocking tech', () => {
+      const map = GameMap.create(5, 5, TileType.Forest);
+      map.setResource(1, 1, ResourceType.Animal);
+      expect(canHarvest(map.getTile(1, 1)!, makeContext(map, []))).toBe(false);
+      expect(canHarvest(map.getTile(1, 1)!, makeContext(map, ['hunting']))).toBe(true);
+    });
+
+    it('requires own city territory', () => {
+      const map = GameMap.create(5, 5, TileType.Forest);
+      map.setResource(1, 1, ResourceType.Animal);
+      expect(canHarvest(map.getTile(1, 1)!, makeContext(map, ['hunting'], false))).toBe(false);
+    });
+
+    it('refuses tiles without a harvestable resource or with a building', () => {
+      const map = GameMap.create(5, 5, TileType.Field);
+      map.setResource(1, 1, ResourceType.Crop);
+      map.setResource(3, 3, ResourceType.Fruit);
+      map.setBuilding(3, 3, BuildingType.Road);
+      const ctx = makeContext(map, ['organization']);
+      expect(canHarvest(map.getTile(0, 0)!, ctx)).toBe(false);
+      expect(canHarvest(map.getTile(1, 1)!, ctx)).toBe(false);
+      expect(canHarvest(map.getTile(3, 3)!, ctx)).toBe(false);
+    });
+  });
+});
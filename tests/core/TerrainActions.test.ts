@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getTerrainActionDefinition,
+  getAllTerrainActions,
+  canPerformTerrainAction,
+} from '../../src/core/TerrainActions.js';
+import { GameMap } from '../../src/core/GameMap.js';
+import { BuildingType, ResourceType, TileType } from '../../src/core/types.js';
+import type { TechId } from '../../src/core/types.js';
+import { makeContext } from './helpers.js';
+
+describe('TerrainActions', () => {
+  it('defines Clear, Burn and Grow Forest', () => {
+    expect(getAllTerrainActions().map(d => d.kind)).toEqual(['clearForest', 'burnForest', 'growForest']);
+    expect(getTerrainActionDefinition('clearForest')).toMatchObject({ cost: 0, stars: 1, tech: 'forestry' });
+    expect(getTerrainActionDefinition('burnForest')).toMatchObject({ cost: 5, resource: ResourceType.Crop, tech: 'construction' });
+    expect(getTerrainActionDefinition('growForest')).toMatchObject({ cost: 5, to: TileType.Forest, tech: 'spiritualism' });
+  });
+
+  describe('canPerformTerrainAction', () => {
+    it('requires the unlocking tech', () => {
+      const map = GameMap.create(5, 5, TileType.Forest);
+      const tile = map.getTile(1, 1)!;
+      expect(canPerformTerrainAction(tile, 'clearForest', makeContext(map, []))).toBe(false);
+      expect(canPerformTerrainAction(tile, 'clearForest', makeContext(map, ['hunting', 'forestry']))).toBe(true);
+    });
+
+    it('requires the matching terrain', () => {
+      const map = GameMap.create(5, 5, TileType.Field);
+      expect(canPerformTerrainAction(map.getTile(1, 1)!, 'clearForest', makeContext(map, ['hunting', 'forestry']))).toBe(false);
+    });
+
+    it('requires own territory outside the city tile', () => {
+      const map = GameMap.create(5, 5, TileType.Forest);
+      const techs: TechId[] = ['hunting', 'forestry'];
+      expect(canPerformTerrainAction(map.getTile(1, 1)!, 'clearForest', makeContext(map, techs, false))).toBe(false);
+      expect(canPerformTerrainAction(map.getTile(2, 2)!, 'clearForest', makeContext(map, techs))).toBe(false);
+    });
+
+    it('refuses tiles with buildings', () => {
+      const map = GameMap.create(5, 5, TileType.Forest);
+      map.setBuilding(1, 1, BuildingType.LumberHut);
+      expect(canPerformTerrainAction(map.getTile(1, 1)!, 'clearForest', makeContext(map, ['hunting', 'forestry']))).toBe(false);
+    });
+
+    it('grow forest needs a field without resources', () => {
+      const map = GameMap.create(5, 5, TileType.Field);
+      map.setResource(1, 1, ResourceType.Fruit);
+      const ctx = makeContext(map, ['archery', 'spiritualism']);
+      expect(canPerformTerrainAction(map.getTile(1, 1)!, 'growForest', ctx)).toBe(false);
+      expect(canPerformTerrainAction(map.getTile(1, 2)!, 'growForest', ctx)).toBe(true);
+    });
+  });
+});
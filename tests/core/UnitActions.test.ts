@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  canUnitMove,
+  canUnitAttack,
+  hasUnitActed,
+  getStateAfterMove,
+  getStateAfterAttack,
+} from '../../src/core/UnitActions.js';
+import { GameState } from '../../src/core/GameState.js';
+import { GameMap } from '../../src/core/GameMap.js';
+import { createUnit, resetUnitIdCounter } from '../../src/core/UnitFactory.js';
+import { TileType, UnitActionState, UnitType } from '../../src/core/types.js';
+import type { GameConfig, UnitInstance } from '../../src/core/types.js';
+
+const CONFIG: GameConfig = {
+  mapSize: 10,
+  waterLevel: 0,
+  tribes: ['xinxi', 'imperius'],
+  difficulty: 'normal',
+  winCondition: 'domination',
+  turnLimit: null,
+};
+
+function makeState(): GameState {
+  return new GameState(GameMap.create(10, 10, TileType.Field), CONFIG);
+}
+
+function withState(unit: UnitInstance, actionState: UnitActionState): UnitInstance {
+  return { ...unit, actionState };
+}
+
+beforeEach(() => {
+  resetUnitIdCounter();
+});
+
+describe('UnitActions', () => {
+  it('a ready unit can move and attack', () => {
+    const unit = createUnit(UnitType.Warrior, 0, 0, 0);
+    expect(canUnitMove(unit)).toBe(true);
+    expect(canUnitAttack(unit)).toBe(true);
+    expect(hasUnitActed(unit)).toBe(false);
+  });
+
+  it('every unit keeps its attack after moving', () => {
+    expect(getStateAfterMove(createUnit(UnitType.Warrior, 0, 0, 0))).toBe(UnitActionState.CanAttack);
+    expect(getStateAfterMove(createUnit(UnitType.Defender, 0, 0, 0))).toBe(UnitActionState.CanAttack);
+    expect(getStateAfterMove(createUnit(UnitType.Catapult, 0, 0, 0))).toBe(UnitActionState.CanAttack);
+  });
+
+  it('a second move always ends the turn', () => {
+    const rider = withState(createUnit(UnitType.Rider, 0, 0, 0), UnitActionState.CanMove);
+    expect(getStateAfterMove(rider)).toBe(UnitActionState.Done);
+  });
+
+  it('Escape lets a unit move after attacking', () => {
+    expect(getStateAfterAttack(createUnit(UnitType.Rider, 0, 0, 0), false)).toBe(UnitActionState.CanMove);
+    expect(getStateAfterAttack(createUnit(UnitType.Warrior, 0, 0, 0), false)).toBe(UnitActionState.Done);
+  });
+
+  it('Persist lets a unit attack again only after a kill', () => {
+    const knight = withState(createUnit(UnitType.Knight, 0, 0, 0), UnitActionState.CanAttack);
+    expect(getStateAfterAttack(knight, true)).toBe(UnitActionState.CanAttack);
+    expect(getStateAfterAttack(knight, false)).toBe(UnitActionState.Done);
+  });
+});
+
+describe('GameState — action economy', () => {
+  it('a unit without Dash can move then attack, but not move again', () => {
+    const state = makeState();
+    const defender = createUnit(UnitType.Defender, 0, 3, 3);
+    state.addUnit(defender);
+    state.addUnit(createUnit(UnitType.Warrior, 1, 5, 3));
+
+    expect(state.moveUnit(defender.id, 4, 3)).toBe(true);
+    expect(state.getUnit(defender.id)!.actionState).toBe(UnitActionState.CanAttack);
+    expect(state.attackUnit(defender.id, 5, 3)).toBeDefined();
+    expect(state.getUnit(defender.id)!.actionState).toBe(UnitActionState.Done);
+    expect(state.moveUnit(defender.id, 3, 3)).toBe(false);
+  });
+
+  it('a unit without Dash that attacks first cannot move afterwards', () => {
+    const state = makeState();
+    const defender = createUnit(UnitType.Defender, 0, 4, 3);
+    state.addUnit(defender);
+    state.addUnit(createUnit(UnitType.Warrior, 1, 5, 3));
+
+    expect(state.attackUnit(defender.id, 5, 3)).toBeDefined();
+    expect(state.moveUnit(defender.id, 3, 3)).toBe(false);
+  });
+
+  it('a Dash unit can move then attack, but not move again', () => {
+    const state = makeState();
+    const warrior = createUnit(UnitType.Warrior, 0, 3, 3);
+    state.addUnit(warrior);
+    state.addUnit(createUnit(UnitType.Warrior, 1, 5, 3));
+
+    expect(state.moveUnit(warrior.id, 4, 3)).toBe(true);
+    expect(state.attackUnit(warrior.id, 5, 3)).toBeDefined();
+    expect(state.moveUnit(warrior.id, 4, 4)).toBe(false);
+  });
+
+  it('a unit without Escape cannot move after attacking', () => {
+    const state = makeState();
+    const warrior = createUnit(UnitType.Warrior, 0, 3, 3);
+    state.addUnit(warrior);
+    state.addUnit(createUnit(UnitType.Warrior, 1, 4, 3));
+
+    state.attackUnit(warrior.id, 4, 3);
+    expect(state.moveUnit(warrior.id, 2, 3)).toBe(false);
+  });
+
+  it('a Rider can move, attack and move again', () => {
+    const state = makeState();
+    const rider = createUnit(UnitType.Rider, 0, 2, 3);
+    state.addUnit(rider);
+    state.addUnit(createUnit(UnitType.Warrior, 1, 5, 3));
+
+    expect(state.moveUnit(rider.id, 4, 3)).toBe(true);
+    expect(state.attackUnit(rider.id, 5, 3)).toBeDefined();
+    expect(state.moveUnit(rider.id, 3, 3)).toBe(true);
+    expect(state.getUnit(rider.id)!.actionState).toBe(UnitActionState.Done);
+  });
+
+  it('a Knight keeps attacking after each kill', () => {
+    const state = makeState();
+    const knight = createUnit(UnitType.Knight, 0, 3, 3);
+    state.addUnit(knight);
+    state.addUnit({ ...createUnit(UnitType.Warrior, 1, 4, 3), currentHp: 1 });
+    state.addUnit({ ...createUnit(UnitType.Warrior, 1, 3, 4), currentHp: 1 });
+    state.addUnit(createUnit(UnitType.Defender, 1, 2, 3));
+
+    expect(state.attackUnit(knight.id, 4, 3)!.defenderKilled).toBe(true);
+    expect(state.attackUnit(knight.id, 3, 4)!.defenderKilled).toBe(true);
+    expect(state.attackUnit(knight.id, 2, 3)!.defenderKilled).toBe(false);
+    expect(state.attackUnit(knight.id, 2, 3)).toBeUndefined();
+    expect(state.moveUnit(knight.id, 4, 3)).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PlayerVisibility, getVisionRange } from '../../src/core/Visibility.js';
+import { GameState } from '../../src/core/GameState.js';
+import { GameMap } from '../../src/core/GameMap.js';
+import { createCity } from '../../src/core/City.js';
+import { createUnit, resetUnitIdCounter } from '../../src/core/UnitFactory.js';
+import { TileType, TileVisibility, UnitType } from '../../src/core/types.js';
+import type { GameConfig } from '../../src/core/types.js';
+
+const CONFIG: GameConfig = {
+  mapSize: 10,
+  waterLevel: 0,
+  tribes: ['xinxi', 'imperius'],
+  difficulty: 'normal',
+  winCondition: 'domination',
+  turnLimit: null,
+};
+
+function makeState(): GameState {
+  const map = GameMap.create(10, 10, TileType.Field);
+  return new GameState(map, CONFIG);
+}
+
+beforeEach(() => {
+  resetUnitIdCounter();
+});
+
+// ---------------------------------------------------------------------------
+// PlayerVisibility
+// ---------------------------------------------------------------------------
+
+describe('PlayerVisibility', () => {
+  it('starts with every tile unexplored', () => {
+    const vis = new PlayerVisibility(4, 4);
+    expect(vis.get(0, 0)).toBe(TileVisibility.Unexplored);
+    expect(vis.isExplored(3, 3)).toBe(false);
+  });
+
+  it('reveal makes a tile visible', () => {
+    const vis = new PlayerVisibility(4, 4);
+    vis.reveal(1, 2);
+    expect(vis.isVisible(1, 2)).toBe(true);
+    expect(vis.isExplored(1, 2)).toBe(true);
+  });
+
+  it('clearVision demotes visible tiles to explored', () => {
+    const vis = new PlayerVisibility(4, 4);
+    vis.reveal(1, 2);
+    vis.clearVision();
+    expect(vis.get(1, 2)).toBe(TileVisibility.Explored);
+    expect(vis.get(0, 0)).toBe(TileVisibility.Unexplored);
+  });
+
+  it('explore does not downgrade a visible tile', () => {
+    const vis = new PlayerVisibility(4, 4);
+    vis.reveal(1, 1);
+    vis.explore(1, 1);
+    vis.explore(2, 2);
+    expect(vis.get(1, 1)).toBe(TileVisibility.Visible);
+    expect(vis.get(2, 2)).toBe(TileVisibility.Explored);
+  });
+
+  it('treats out-of-bounds tiles as unexplored', () => {
+    const vis = new PlayerVisibility(4, 4);
+    vis.reveal(-1, 0);
+    expect(vis.get(-1, 0)).toBe(TileVisibility.Unexplored);
+  });
+});
+
+describe('getVisionRange', () => {
+  it('is 1 for a standard unit on a field', () => {
+    expect(getVisionRange(createUnit(UnitType.Warrior, 0, 0, 0), TileType.Field)).toBe(1);
+  });
+
+  it('is 2 on a mountain', () => {
+    expect(getVisionRange(createUnit(UnitType.Warrior, 0, 0, 0), TileType.Mountain)).toBe(2);
+  });
+
+  it('is 2 for units with the Scout skill', () => {
+    expect(getVisionRange(createUnit(UnitType.Cloak, 0, 0, 0), TileType.Field)).toBe(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GameState integration
+// ---------------------------------------------------------------------------
+
+describe('GameState — fog of war', () => {
+  it('reveals the 3x3 area around a new unit', () => {
+    const state = makeState();
+    state.addUnit(createUnit(UnitType.Warrior, 0, 5, 5));
+
+    expect(state.isTileVisible(0, 4, 4)).toBe(true);
+    expect(state.isTileVisible(0, 6, 6)).toBe(true);
+    expect(state.isTileVisible(0, 7, 5)).toBe(false);
+    // The other player sees nothing
+    expect(state.isTileVisible(1, 5, 5)).toBe(false);
+  });
+
+  it('units on mountains see 2 tiles', () => {
+    const state = makeState();
+    state.map.setTile(5, 5, TileType.Mountain);
+    state.addUnit(createUnit(UnitType.Warrior, 0, 5, 5));
+
+    expect(state.isTileVisible(0, 7, 7)).toBe(true);
+  });
+
+  it('cities reveal all tiles within their borders', () => {
+    const state = makeState();
+    state.addCity(createCity('xinxi', { x: 2, y: 2 }, 'Capital', true));
+
+    expect(state.isTileVisible(0, 1, 1)).toBe(true);
+    expect(state.isTileVisible(0, 3, 3)).toBe(true);
+    expect(state.isTileVisible(0, 4, 4)).toBe(false);
+  });
+
+  it('tiles left behind after a move become explored', () => {
+    const state = makeState();
+    const unit = createUnit(UnitType.Warrior, 0, 5, 5);
+    state.addUnit(unit);
+
+    state.moveUnit(unit.id, 6, 5);
+
+    const vis = state.getVisibility(0);
+    expect(vis.get(4, 5)).toBe(TileVisibility.Explored);
+    expect(vis.get(7, 5)).toBe(TileVisibility.Visible);
+  });
+
+  it('getVisibleUnitAt hides enemy units outside vision', () => {
+    const state = makeState();
+    state.addUnit(createUnit(UnitType.Warrior, 0, 1, 1));
+    const enemy = createUnit(UnitType.Warrior, 1, 8, 8);
+    state.addUnit(enemy);
+
+    expect(state.getUnitAt(8, 8)).toBeDefined();
+    expect(state.getVisibleUnitAt(8, 8, 0)).toBeUndefined();
+    expect(state.getVisibleUnitAt(8, 8, 1)).toEqual(enemy);
+  });
+
+  it('getVisibleUnits includes own units and enemies in sight', () => {
+    const state = makeState();
+    state.addUnit(createUnit(UnitType.Warrior, 0, 1, 1));
+    state.addUnit(createUnit(UnitType.Warrior, 1, 2, 2));
+    state.addUnit(createUnit(UnitType.Warrior, 1, 8, 8));
+
+    expect(state.getVisibleUnits(0)).toHaveLength(2);
+    expect(state.getVisibleUnits(1)).toHaveLength(3);
+  });
+
+  it('getVisibleCities only returns cities on explored tiles', () => {
+    const state = makeState();
+    state.addCity(createCity('xinxi', { x: 1, y: 1 }, 'Capital', true));
+    state.addCity(createCity('neutral', { x: 8, y: 8 }, 'Village', false));
+
+    expect(state.getVisibleCities(0).map(c => c.name)).toEqual(['Capital']);
+  });
+
+  it('cannot attack an enemy the attacker cannot see', () => {
+    const state = makeState();
+    const archer = createUnit(UnitType.Archer, 0, 1, 1);
+    state.addUnit(archer);
+    state.addUnit(createUnit(UnitType.Warrior, 1, 3, 1));
+
+    // In range (2) but outside vision (1)
+    expect(state.attackUnit(archer.id, 3, 1)).toBeUndefined();
+  });
+
+  it('refreshes vision at turn start', () => {
+    const state = makeState();
+    state.addUnit(createUnit(UnitType.Warrior, 1, 5, 5));
+    state.getVisibility(1).clearVision();
+    expect(state.isTileVisible(1, 5, 5)).toBe(false);
+
+    state.endTurn(); // -> player 1
+    expect(state.isTileVisible(1, 5, 5)).toBe(true);
+  });
+});
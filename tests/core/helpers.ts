@@ -0,0 +1,15 @@
+import type { BuildContext } from '../../src/core/Buildings.js';
+import { GameMap } from '../../src/core/GameMap.js';
+import { PlayerTechState } from '../../src/core/TechTree.js';
+import { createCity } from '../../src/core/City.js';
+import type { TechId } from '../../src/core/types.js';
+
+/** A Xin-xi build context with the given techs and, by default, a capital at (2,2). */
+export function makeContext(map: GameMap, techs: TechId[], withCity = true): BuildContext {
+  return {
+    map,
+    tribe: 'xinxi',
+    techs: new PlayerTechState(techs),
+    city: withCity ? createCity('xinxi', { x: 2, y: 2 }, 'Capital', true) : undefined,
+  };
+}